@@ -0,0 +1,312 @@
+// Безопасный рендер Markdown для чата: разметка строится только через DOM и textContent,
+// поэтому HTML из ответа модели никогда не попадает в страницу как разметка.
+(function () {
+    const KEYWORDS = {
+        common: [
+            'if', 'else', 'for', 'while', 'do', 'return', 'break', 'continue', 'switch', 'case', 'default',
+            'try', 'catch', 'finally', 'throw', 'new', 'class', 'import', 'export', 'from', 'as', 'true',
+            'false', 'null', 'this', 'super', 'extends', 'static', 'public', 'private', 'protected'
+        ],
+        javascript: [
+            'function', 'const', 'let', 'var', 'async', 'await', 'typeof', 'instanceof', 'in', 'of', 'void',
+            'undefined', 'yield', 'delete', 'interface', 'type', 'enum', 'implements', 'readonly', 'declare',
+            'namespace', 'abstract', 'keyof', 'never', 'unknown', 'any', 'string', 'number', 'boolean'
+        ],
+        python: [
+            'def', 'lambda', 'pass', 'with', 'yield', 'elif', 'except', 'raise', 'global', 'nonlocal', 'del',
+            'assert', 'and', 'or', 'not', 'is', 'in', 'None', 'True', 'False', 'self', 'async', 'await'
+        ],
+        c: [
+            'int', 'long', 'short', 'char', 'float', 'double', 'void', 'unsigned', 'signed', 'struct', 'union',
+            'enum', 'typedef', 'const', 'sizeof', 'auto', 'bool', 'namespace', 'template', 'typename', 'using',
+            'virtual', 'override', 'final', 'interface', 'var', 'string', 'package', 'func', 'go', 'defer',
+            'chan', 'map', 'range', 'fn', 'let', 'mut', 'impl', 'trait', 'pub', 'use', 'mod', 'match', 'self'
+        ],
+        shell: ['then', 'fi', 'esac', 'done', 'in', 'function', 'local', 'export', 'echo', 'exit']
+    };
+
+    const LANGUAGE_ALIASES = {
+        js: 'javascript', jsx: 'javascript', ts: 'javascript', tsx: 'javascript', typescript: 'javascript',
+        javascriptreact: 'javascript', typescriptreact: 'javascript', json: 'javascript',
+        py: 'python', python: 'python',
+        sh: 'shell', bash: 'shell', zsh: 'shell', shell: 'shell', shellscript: 'shell', powershell: 'shell', ps1: 'shell'
+    };
+
+    const HASH_COMMENT_LANGUAGES = ['python', 'shell', 'ruby', 'rb', 'yaml', 'yml', 'perl', 'r', 'toml', 'dockerfile', 'makefile'];
+
+    function languageFamily(language) {
+        return LANGUAGE_ALIASES[language] || (language ? 'c' : '');
+    }
+
+    function keywordSet(language) {
+        const family = languageFamily(language);
+        if (!family) {
+            return new Set();
+        }
+        return new Set(KEYWORDS.common.concat(KEYWORDS[family] || []));
+    }
+
+    function span(className, text) {
+        const element = document.createElement('span');
+        element.className = className;
+        element.textContent = text;
+        return element;
+    }
+
+    /**
+     * Подсветка синтаксиса без внешних библиотек: комментарии, строки, числа и ключевые слова.
+     * Возвращает фрагмент с текстовыми узлами и span'ами токенов.
+     */
+    function highlight(code, language) {
+        const fragment = document.createDocumentFragment();
+        const lang = (language || '').toLowerCase();
+        const keywords = keywordSet(lang);
+        const hashComments = HASH_COMMENT_LANGUAGES.includes(lang) || languageFamily(lang) === 'python' || languageFamily(lang) === 'shell';
+        const comment = hashComments ? '#[^\\n]*' : '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?(?:\\*\\/|$)';
+        const tokenPattern = new RegExp(
+            '(' + comment + ')' +
+            '|("(?:[^"\\\\\\n]|\\\\.)*"?|\'(?:[^\'\\\\\\n]|\\\\.)*\'?|`(?:[^`\\\\]|\\\\.)*`?)' +
+            '|(\\b\\d+(?:\\.\\d+)?\\b)' +
+            '|([A-Za-z_$][\\w$]*)',
+            'g'
+        );
+
+        let lastIndex = 0;
+        let match;
+        while ((match = tokenPattern.exec(code)) !== null) {
+            if (match.index > lastIndex) {
+                fragment.appendChild(document.createTextNode(code.slice(lastIndex, match.index)));
+            }
+            if (match[1]) {
+                fragment.appendChild(span('tok-comment', match[1]));
+            } else if (match[2]) {
+                fragment.appendChild(span('tok-string', match[2]));
+            } else if (match[3]) {
+                fragment.appendChild(span('tok-number', match[3]));
+            } else if (keywords.has(match[4])) {
+                fragment.appendChild(span('tok-keyword', match[4]));
+            } else {
+                fragment.appendChild(document.createTextNode(match[4]));
+            }
+            lastIndex = tokenPattern.lastIndex;
+        }
+        if (lastIndex < code.length) {
+            fragment.appendChild(document.createTextNode(code.slice(lastIndex)));
+        }
+        return fragment;
+    }
+
+    // Ссылки разрешены только на http(s) и mailto, остальные остаются текстом
+    function safeHref(url) {
+        return /^(https?:|mailto:)/i.test(url.trim()) ? url.trim() : undefined;
+    }
+
+    const INLINE_PATTERN = /(`+)([\s\S]*?[^`])\1(?!`)|\*\*([^*]+)\*\*|(?<!\w)__([^_]+)__(?!\w)|\*([^*\s][^*]*)\*|(?<!\w)_([^_\s][^_]*)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+    function renderInline(text, parent) {
+        // Свой экземпляр на каждый вызов: renderInline рекурсивна, а lastIndex у регулярки общий
+        const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+        let lastIndex = 0;
+        let match;
+        while ((match = pattern.exec(text)) !== null) {
+            if (match.index > lastIndex) {
+                parent.appendChild(document.createTextNode(text.slice(lastIndex, match.index)));
+            }
+            if (match[2] !== undefined) {
+                const code = document.createElement('code');
+                code.className = 'inline-code';
+                code.textContent = match[2].trim();
+                parent.appendChild(code);
+            } else if (match[3] !== undefined || match[4] !== undefined) {
+                const strong = document.createElement('strong');
+                renderInline(match[3] !== undefined ? match[3] : match[4], strong);
+                parent.appendChild(strong);
+            } else if (match[5] !== undefined || match[6] !== undefined) {
+                const em = document.createElement('em');
+                renderInline(match[5] !== undefined ? match[5] : match[6], em);
+                parent.appendChild(em);
+            } else if (match[7] !== undefined) {
+                const href = safeHref(match[8]);
+                if (href) {
+                    const link = document.createElement('a');
+                    link.setAttribute('href', href);
+                    link.title = href;
+                    renderInline(match[7], link);
+                    parent.appendChild(link);
+                } else {
+                    parent.appendChild(document.createTextNode(match[0]));
+                }
+            }
+            lastIndex = pattern.lastIndex;
+        }
+        if (lastIndex < text.length) {
+            parent.appendChild(document.createTextNode(text.slice(lastIndex)));
+        }
+    }
+
+    /**
+     * Разбирает строку после ``` : язык и, если модель его указала, путь к файлу.
+     * Поддерживаются формы "ts src/a.ts", "ts:src/a.ts", "ts title=src/a.ts" и "src/a.ts".
+     */
+    function parseFenceInfo(info) {
+        const tokens = info.trim().split(/\s+/).filter(Boolean);
+        let language = '';
+        let path = '';
+        for (const token of tokens) {
+            const attribute = token.match(/^(?:title|file|path|filename)=["']?([^"']+)["']?$/i);
+            if (attribute) {
+                path = attribute[1];
+            } else if (!language && !path && /^[\w#+-]+:[^:]+$/.test(token)) {
+                const separator = token.indexOf(':');
+                language = token.slice(0, separator);
+                path = token.slice(separator + 1);
+            } else if (!language && !path && !/[\/\\]/.test(token) && !/\.\w+$/.test(token)) {
+                language = token;
+            } else if (!path && /[\w-]\.\w+$/.test(token)) {
+                path = token;
+            }
+        }
+        if (!language && path) {
+            const extension = path.match(/\.(\w+)$/);
+            language = extension ? extension[1] : '';
+        }
+        return { language: language.toLowerCase(), path: path };
+    }
+
+    function createCodeBlock(code, language, path) {
+        const block = document.createElement('div');
+        block.className = 'code-block';
+        block.dataset.language = language;
+        if (path) {
+            block.dataset.path = path;
+        }
+        if (language || path) {
+            const label = document.createElement('div');
+            label.className = 'code-language';
+            label.textContent = path ? path : language;
+            block.appendChild(label);
+        }
+        const pre = document.createElement('pre');
+        const codeElement = document.createElement('code');
+        if (language) {
+            codeElement.className = 'language-' + language.replace(/[^\w-]/g, '');
+        }
+        codeElement.appendChild(highlight(code, language));
+        pre.appendChild(codeElement);
+        block.appendChild(pre);
+        return block;
+    }
+
+    const FENCE = /^\s*(```+|~~~+)(.*)$/;
+    const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+    const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+    const ORDERED_ITEM = /^\s*(\d+)[.)]\s+(.*)$/;
+    const QUOTE = /^\s*>\s?(.*)$/;
+    const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+    /**
+     * Разбирает Markdown в DocumentFragment. Незакрытый блок кода в конце тоже
+     * считается кодом, чтобы потоковый ответ не перерисовывался как обычный текст.
+     */
+    function renderMarkdown(text) {
+        const fragment = document.createDocumentFragment();
+        const lines = String(text || '').replace(/\r\n/g, '\n').split('\n');
+        let paragraph = [];
+
+        const flushParagraph = () => {
+            if (paragraph.length > 0) {
+                const p = document.createElement('p');
+                paragraph.forEach((line, index) => {
+                    if (index > 0) {
+                        p.appendChild(document.createElement('br'));
+                    }
+                    renderInline(line, p);
+                });
+                fragment.appendChild(p);
+                paragraph = [];
+            }
+        };
+
+        let i = 0;
+        while (i < lines.length) {
+            const line = lines[i];
+            const fence = line.match(FENCE);
+            if (fence) {
+                flushParagraph();
+                const marker = fence[1];
+                const code = [];
+                i++;
+                while (i < lines.length && !lines[i].trim().startsWith(marker)) {
+                    code.push(lines[i]);
+                    i++;
+                }
+                i++;
+                const info = parseFenceInfo(fence[2]);
+                fragment.appendChild(createCodeBlock(code.join('\n'), info.language, info.path));
+                continue;
+            }
+
+            const heading = line.match(HEADING);
+            if (heading) {
+                flushParagraph();
+                const element = document.createElement('h' + Math.min(heading[1].length + 2, 6));
+                element.className = 'md-heading';
+                renderInline(heading[2], element);
+                fragment.appendChild(element);
+                i++;
+                continue;
+            }
+
+            if (RULE.test(line)) {
+                flushParagraph();
+                fragment.appendChild(document.createElement('hr'));
+                i++;
+                continue;
+            }
+
+            if (UNORDERED_ITEM.test(line) || ORDERED_ITEM.test(line)) {
+                flushParagraph();
+                const ordered = ORDERED_ITEM.test(line);
+                const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+                const list = document.createElement(ordered ? 'ol' : 'ul');
+                const start = ordered ? parseInt(line.match(ORDERED_ITEM)[1], 10) : 1;
+                if (ordered && start !== 1) {
+                    list.setAttribute('start', String(start));
+                }
+                while (i < lines.length && pattern.test(lines[i])) {
+                    const match = lines[i].match(pattern);
+                    const item = document.createElement('li');
+                    renderInline(ordered ? match[2] : match[1], item);
+                    list.appendChild(item);
+                    i++;
+                }
+                fragment.appendChild(list);
+                continue;
+            }
+
+            if (QUOTE.test(line)) {
+                flushParagraph();
+                const quote = document.createElement('blockquote');
+                const quoted = [];
+                while (i < lines.length && QUOTE.test(lines[i])) {
+                    quoted.push(lines[i].match(QUOTE)[1]);
+                    i++;
+                }
+                quote.appendChild(renderMarkdown(quoted.join('\n')));
+                fragment.appendChild(quote);
+                continue;
+            }
+
+            if (!line.trim()) {
+                flushParagraph();
+            } else {
+                paragraph.push(line);
+            }
+            i++;
+        }
+        flushParagraph();
+        return fragment;
+    }
+
+    window.renderMarkdown = renderMarkdown;
+})();
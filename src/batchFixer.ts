@@ -0,0 +1,344 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getDocumentSymbols, getSurroundingCode, requestCorrection } from './fixer';
+import { OllamaClient } from './ollama/client';
+import { isCancellationError } from './utils/retry';
+import { JobQueue } from './utils/jobQueue';
+import { estimateTokens } from './utils/tokens';
+
+// Запас токенов под текст промпта вокруг кода
+const PROMPT_OVERHEAD_TOKENS = 300;
+const MAX_FILES_WITHOUT_CONFIRMATION = 50;
+// Каталоги, которые не исправляем даже без files.exclude
+const EXCLUDED_DIRS = ['node_modules', '.git', 'dist', 'out', 'build'];
+// При исправлении папки берём только исходный код, а не картинки, lock-файлы и т. п.
+const SOURCE_EXTENSIONS = new Set([
+    '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte',
+    '.py', '.java', '.kt', '.kts', '.scala', '.go', '.rs', '.rb', '.php',
+    '.c', '.h', '.cc', '.cpp', '.cxx', '.hpp', '.cs', '.swift', '.dart',
+    '.lua', '.sh', '.ps1', '.sql', '.r', '.m', '.ex', '.exs', '.erl', '.hs', '.clj', '.fs'
+]);
+
+const CHUNK_SYMBOL_KINDS = [
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+    vscode.SymbolKind.Class
+];
+const CONTAINER_SYMBOL_KINDS = [
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Module,
+    vscode.SymbolKind.Namespace
+];
+
+interface FileResult {
+    uri: vscode.Uri;
+    status: 'changed' | 'unchanged' | 'failed' | 'cancelled';
+    chunks: number;
+    changedChunks: number;
+    durationMs: number;
+    error?: string;
+}
+
+interface ChunkReplacement {
+    range: vscode.Range;
+    text: string;
+}
+
+/**
+ * Исправление целых файлов и наборов файлов: каждый файл делится на фрагменты размером
+ * с функцию, задачи идут через очередь с ограниченным параллелизмом, а все изменения
+ * перед записью показываются в окне предпросмотра рефакторинга.
+ */
+export class BatchFixer implements vscode.Disposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly client: OllamaClient) {
+        this._disposables.push(
+            vscode.commands.registerCommand('ollama-code-fixer.fixActiveFile', () => this.fixActiveFile()),
+            vscode.commands.registerCommand(
+                'ollama-code-fixer.fixFiles',
+                (uri?: vscode.Uri, selected?: vscode.Uri[]) => this.fixFiles(selected && selected.length > 0 ? selected : uri ? [uri] : [])
+            )
+        );
+    }
+
+    private async fixActiveFile(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showInformationMessage('No active text editor.');
+            return;
+        }
+        await this.run([editor.document.uri]);
+    }
+
+    // Без аргументов (из палитры команд) спрашивает glob-шаблон
+    private async fixFiles(targets: vscode.Uri[]): Promise<void> {
+        let files: vscode.Uri[];
+        if (targets.length === 0) {
+            const pattern = await vscode.window.showInputBox({
+                prompt: 'Glob pattern of files to fix with Ollama',
+                placeHolder: 'src/**/*.ts'
+            });
+            if (!pattern) {
+                return;
+            }
+            files = await findFiles(pattern, false);
+        } else {
+            files = [];
+            for (const target of targets) {
+                const stat = await vscode.workspace.fs.stat(target);
+                if (stat.type & vscode.FileType.Directory) {
+                    files.push(...await findFiles(new vscode.RelativePattern(target, '**/*'), true));
+                } else {
+                    files.push(target);
+                }
+            }
+        }
+        // Выделенная папка и файл из неё дают один и тот же файл дважды
+        const unique = new Map(files.map(uri => [uri.toString(), uri]));
+        files = [...unique.values()];
+
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('No files matched.');
+            return;
+        }
+        if (files.length > MAX_FILES_WITHOUT_CONFIRMATION) {
+            const choice = await vscode.window.showWarningMessage(
+                `Fix ${files.length} files with Ollama? This may take a long time.`,
+                { modal: true },
+                'Continue'
+            );
+            if (choice !== 'Continue') {
+                return;
+            }
+        }
+        await this.run(files);
+    }
+
+    private async run(files: vscode.Uri[]): Promise<void> {
+        const concurrency = vscode.workspace.getConfiguration('ollamaCodeFixer').get<number>('batchConcurrency', 1);
+        const startedAt = Date.now();
+        const edit = new vscode.WorkspaceEdit();
+        const results: FileResult[] = [];
+
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Ollama Code Fixer',
+                cancellable: true
+            },
+            async (progress, token) => {
+                const abortController = new AbortController();
+                token.onCancellationRequested(() => abortController.abort());
+                const queue = new JobQueue(concurrency, abortController.signal);
+                let done = 0;
+
+                progress.report({ message: `Fixing ${files.length} file(s)...` });
+
+                await Promise.all(files.map(uri => queue.add(async () => {
+                    const result = await this.fixFile(uri, edit, abortController.signal);
+                    results.push(result);
+                    done++;
+                    progress.report({
+                        increment: 100 / files.length,
+                        message: `${done}/${files.length}: ${vscode.workspace.asRelativePath(uri)}`
+                    });
+                }).catch(() => {
+                    results.push({ uri, status: 'cancelled', chunks: 0, changedChunks: 0, durationMs: 0 });
+                })));
+            }
+        );
+
+        const totalMs = Date.now() - startedAt;
+        if (edit.size > 0) {
+            // needsConfirmation открывает предпросмотр, где можно снять отдельные изменения
+            const applied = await vscode.workspace.applyEdit(edit);
+            if (!applied) {
+                console.log('[OllamaCodeFixer] Batch fix edits were not applied.');
+            }
+        }
+        await this.showReport(results, totalMs);
+    }
+
+    private async fixFile(uri: vscode.Uri, edit: vscode.WorkspaceEdit, signal: AbortSignal): Promise<FileResult> {
+        const startedAt = Date.now();
+        const result: FileResult = { uri, status: 'unchanged', chunks: 0, changedChunks: 0, durationMs: 0 };
+
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const version = document.version;
+            const chunks = await splitIntoChunks(document);
+            result.chunks = chunks.length;
+
+            const replacements: ChunkReplacement[] = [];
+            for (const range of chunks) {
+                const code = document.getText(range);
+                if (!code.trim()) {
+                    continue;
+                }
+                const corrected = await requestCorrection(
+                    this.client,
+                    {
+                        code,
+                        languageId: document.languageId,
+                        fileName: vscode.workspace.asRelativePath(uri),
+                        surroundingCode: getSurroundingCode(document, range)
+                    },
+                    signal
+                );
+                const text = restoreLeadingIndentation(code, corrected);
+                if (text !== code) {
+                    replacements.push({ range, text });
+                }
+            }
+
+            if (document.version !== version) {
+                throw new Error('The file was edited while it was being processed.');
+            }
+
+            for (const replacement of replacements) {
+                edit.replace(uri, replacement.range, replacement.text, {
+                    needsConfirmation: true,
+                    label: 'Ollama fix',
+                    description: path.basename(uri.path)
+                });
+            }
+            result.changedChunks = replacements.length;
+            result.status = replacements.length > 0 ? 'changed' : 'unchanged';
+        } catch (error) {
+            if (isCancellationError(error) || signal.aborted) {
+                result.status = 'cancelled';
+            } else {
+                result.status = 'failed';
+                result.error = error instanceof Error ? error.message : String(error);
+                console.error(`[OllamaCodeFixer] Batch fix failed for ${uri.toString()}:`, error);
+            }
+        }
+
+        result.durationMs = Date.now() - startedAt;
+        return result;
+    }
+
+    private async showReport(results: FileResult[], totalMs: number): Promise<void> {
+        const count = (status: FileResult['status']) => results.filter(r => r.status === status).length;
+        const seconds = (ms: number) => (ms / 1000).toFixed(1);
+        const sorted = [...results].sort((a, b) => a.uri.path.localeCompare(b.uri.path));
+
+        const lines = [
+            '# Ollama batch fix report',
+            '',
+            `- Files: ${results.length}`,
+            `- Changes proposed: ${count('changed')}`,
+            `- Unchanged: ${count('unchanged')}`,
+            `- Failed: ${count('failed')}`,
+            `- Cancelled: ${count('cancelled')}`,
+            `- Total time: ${seconds(totalMs)}s`,
+            '',
+            '| File | Status | Changed chunks | Time | Error |',
+            '| --- | --- | --- | --- | --- |',
+            ...sorted.map(r =>
+                `| ${vscode.workspace.asRelativePath(r.uri)} | ${r.status} | ${r.changedChunks}/${r.chunks} | ${seconds(r.durationMs)}s | ${(r.error || '').replace(/\|/g, '\\|')} |`
+            )
+        ];
+
+        const document = await vscode.workspace.openTextDocument({ content: lines.join('\n'), language: 'markdown' });
+        await vscode.window.showTextDocument(document, { preview: false });
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
+
+/**
+ * Файлы по шаблону без исключённых каталогов. Исключения не передаются в findFiles,
+ * чтобы действовала настройка files.exclude.
+ */
+async function findFiles(include: vscode.GlobPattern, sourceOnly: boolean): Promise<vscode.Uri[]> {
+    const files = await vscode.workspace.findFiles(include);
+    return files.filter(uri =>
+        !uri.path.split('/').some(segment => EXCLUDED_DIRS.includes(segment))
+        && (!sourceOnly || SOURCE_EXTENSIONS.has(path.posix.extname(uri.path).toLowerCase()))
+    );
+}
+
+// Максимальный размер фрагмента: на ответ модели нужно примерно столько же токенов, сколько на код
+function getMaxChunkTokens(): number {
+    const contextLength = vscode.workspace.getConfiguration('ollamaCodeFixer').get<number>('contextLength', 4096);
+    return Math.max(256, Math.floor((contextLength - PROMPT_OVERHEAD_TOKENS) / 2));
+}
+
+/**
+ * Делит файл на фрагменты по символам (функции, методы, классы), которые помещаются в контекст.
+ * Слишком большие классы делятся по методам, а всё, что лежит между ними (импорты, переменные,
+ * интерфейсы, код верхнего уровня), — по строкам.
+ */
+export async function splitIntoChunks(document: vscode.TextDocument): Promise<vscode.Range[]> {
+    const maxTokens = getMaxChunkTokens();
+    const symbols = await getDocumentSymbols(document);
+    const symbolChunks: vscode.Range[] = [];
+
+    const visit = (symbol: vscode.DocumentSymbol) => {
+        const fits = estimateTokens(document.getText(symbol.range)) <= maxTokens;
+        if (CHUNK_SYMBOL_KINDS.includes(symbol.kind) && fits) {
+            symbolChunks.push(symbol.range);
+        } else if (CONTAINER_SYMBOL_KINDS.includes(symbol.kind) && symbol.children.length > 0) {
+            symbol.children.forEach(visit);
+        } else if (CHUNK_SYMBOL_KINDS.includes(symbol.kind)) {
+            symbolChunks.push(...splitByLines(document, symbol.range, maxTokens));
+        }
+    };
+    symbols.forEach(visit);
+    symbolChunks.sort((a, b) => a.start.compareTo(b.start));
+
+    // Строки между фрагментами символов тоже нужно проверить
+    const chunks: vscode.Range[] = [];
+    const addGap = (startLine: number, endLine: number) => {
+        if (startLine <= endLine) {
+            const gap = document.validateRange(new vscode.Range(startLine, 0, endLine, Number.MAX_SAFE_INTEGER));
+            chunks.push(...splitByLines(document, gap, maxTokens).filter(range => document.getText(range).trim()));
+        }
+    };
+    let nextLine = 0;
+    for (const range of symbolChunks) {
+        // Провайдеры символов иногда возвращают пересекающиеся диапазоны
+        if (range.start.line < nextLine) {
+            continue;
+        }
+        addGap(nextLine, range.start.line - 1);
+        chunks.push(range);
+        nextLine = range.end.line + 1;
+    }
+    addGap(nextLine, document.lineCount - 1);
+    return chunks;
+}
+
+function splitByLines(document: vscode.TextDocument, range: vscode.Range, maxTokens: number): vscode.Range[] {
+    const chunks: vscode.Range[] = [];
+    let startLine = range.start.line;
+    let tokens = 0;
+
+    for (let line = range.start.line; line <= range.end.line; line++) {
+        const lineTokens = estimateTokens(document.lineAt(line).text) + 1;
+        if (tokens > 0 && tokens + lineTokens > maxTokens) {
+            chunks.push(document.validateRange(new vscode.Range(startLine, 0, line - 1, Number.MAX_SAFE_INTEGER)));
+            startLine = line;
+            tokens = 0;
+        }
+        tokens += lineTokens;
+    }
+    chunks.push(document.validateRange(new vscode.Range(startLine, 0, range.end.line, Number.MAX_SAFE_INTEGER)));
+    return chunks;
+}
+
+// Модель возвращает код без начальных пробелов, поэтому отступ первой строки восстанавливаем
+function restoreLeadingIndentation(original: string, corrected: string): string {
+    const indentation = original.match(/^[ \t]*/)?.[0] || '';
+    if (indentation && !/^[ \t]/.test(corrected)) {
+        return indentation + corrected;
+    }
+    return corrected;
+}
@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import { getLocaleStrings } from './localization';
+import { EditorTracker } from './utils/editorTracker';
+import { estimateTokens } from './utils/tokens';
+import { resolveWorkspacePath } from './utils/workspace';
+
+export type AttachmentKind = 'selection' | 'file' | 'diagnostics' | 'workspace';
+
+export interface Mention {
+    kind: AttachmentKind;
+    // Аргумент после двоеточия: путь для @file и @diagnostics, запрос для @workspace
+    arg?: string;
+}
+
+export interface ChatAttachment {
+    id: string;
+    kind: AttachmentKind;
+    label: string;
+    content: string;
+    tokens: number;
+}
+
+// Ограничения, чтобы одно вложение не вытеснило из контекста всю историю
+const MAX_ATTACHMENT_TOKENS = 2000;
+const MAX_SEARCH_FILES = 500;
+const MAX_SEARCH_MATCHES = 30;
+const MAX_SEARCH_FILE_SIZE = 200 * 1024;
+const SEARCH_EXCLUDE = '**/{node_modules,.git,dist,out,build}/**';
+
+const MENTION_PATTERN = /(^|\s)@(selection|file|diagnostics|workspace)(?::("[^"]+"|\S+))?(?=\s|$)/g;
+
+function unquote(value: string | undefined): string | undefined {
+    if (!value) {
+        return undefined;
+    }
+    return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+// Вырезает упоминания из текста сообщения; текст без них уходит модели как вопрос
+export function extractMentions(text: string): { text: string; mentions: Mention[] } {
+    const mentions: Mention[] = [];
+    const stripped = text.replace(MENTION_PATTERN, (_match, prefix: string, kind: AttachmentKind, arg?: string) => {
+        mentions.push({ kind, arg: unquote(arg) });
+        return prefix;
+    });
+    return { text: stripped.replace(/[ \t]{2,}/g, ' ').trim(), mentions };
+}
+
+function createAttachment(kind: AttachmentKind, label: string, content: string): ChatAttachment {
+    let text = content;
+    if (estimateTokens(text) > MAX_ATTACHMENT_TOKENS) {
+        // Оценка ~4 символа на токен, как в estimateTokens
+        text = text.slice(0, MAX_ATTACHMENT_TOKENS * 4) + '\n... (truncated)';
+    }
+    return {
+        id: `${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        kind,
+        label,
+        content: text,
+        tokens: estimateTokens(text)
+    };
+}
+
+function fence(languageId: string, code: string): string {
+    return `\`\`\`${languageId}\n${code}\n\`\`\``;
+}
+
+async function resolveDocument(filePath: string | undefined): Promise<vscode.TextDocument | undefined> {
+    if (!filePath) {
+        return EditorTracker.getInstance().lastEditor?.document;
+    }
+    const uri = await resolveWorkspacePath(filePath);
+    if (!uri) {
+        return undefined;
+    }
+    try {
+        return await vscode.workspace.openTextDocument(uri);
+    } catch {
+        return undefined;
+    }
+}
+
+async function attachSelection(): Promise<ChatAttachment[]> {
+    const strings = getLocaleStrings();
+    const editor = EditorTracker.getInstance().lastEditor;
+    if (!editor) {
+        vscode.window.showWarningMessage(strings.noActiveEditor);
+        return [];
+    }
+    if (editor.selection.isEmpty) {
+        vscode.window.showWarningMessage(strings.noSelection);
+        return [];
+    }
+    const document = editor.document;
+    const range = editor.selection;
+    const label = `${vscode.workspace.asRelativePath(document.uri)}:${range.start.line + 1}-${range.end.line + 1}`;
+    return [createAttachment('selection', label, fence(document.languageId, document.getText(range)))];
+}
+
+async function attachFiles(filePath: string | undefined): Promise<ChatAttachment[]> {
+    const strings = getLocaleStrings();
+    let documents: vscode.TextDocument[] = [];
+
+    if (filePath) {
+        const document = await resolveDocument(filePath);
+        if (!document) {
+            vscode.window.showWarningMessage(strings.fileNotFound.replace('{0}', filePath));
+            return [];
+        }
+        documents = [document];
+    } else {
+        const files = await vscode.workspace.findFiles('**/*', SEARCH_EXCLUDE, 2000);
+        const current = EditorTracker.getInstance().lastEditor?.document.uri.toString();
+        const picked = await vscode.window.showQuickPick(
+            files
+                .map(uri => ({ label: vscode.workspace.asRelativePath(uri), uri, picked: uri.toString() === current }))
+                .sort((a, b) => a.label.localeCompare(b.label)),
+            { placeHolder: strings.selectFilesToAttach, canPickMany: true, matchOnDescription: true }
+        );
+        if (!picked || picked.length === 0) {
+            return [];
+        }
+        for (const item of picked) {
+            try {
+                documents.push(await vscode.workspace.openTextDocument(item.uri));
+            } catch (error) {
+                console.error(`[OllamaCodeFixer] Cannot attach ${item.label}:`, error);
+            }
+        }
+    }
+
+    return documents.map(document => {
+        const label = vscode.workspace.asRelativePath(document.uri);
+        return createAttachment('file', label, fence(document.languageId, document.getText()));
+    });
+}
+
+async function attachDiagnostics(filePath: string | undefined): Promise<ChatAttachment[]> {
+    const strings = getLocaleStrings();
+    const document = await resolveDocument(filePath);
+    if (!document) {
+        vscode.window.showWarningMessage(filePath ? strings.fileNotFound.replace('{0}', filePath) : strings.noActiveEditor);
+        return [];
+    }
+
+    const severities = ['Error', 'Warning', 'Information', 'Hint'];
+    const diagnostics = vscode.languages.getDiagnostics(document.uri);
+    const lines = diagnostics.map(diagnostic => {
+        const position = `${diagnostic.range.start.line + 1}:${diagnostic.range.start.character + 1}`;
+        const source = diagnostic.source ? ` (${diagnostic.source})` : '';
+        const code = document.lineAt(diagnostic.range.start.line).text.trim();
+        return `${position} ${severities[diagnostic.severity]}: ${diagnostic.message}${source}\n    ${code}`;
+    });
+    const label = vscode.workspace.asRelativePath(document.uri);
+    return [createAttachment(
+        'diagnostics',
+        `${label} (${diagnostics.length})`,
+        lines.length > 0 ? lines.join('\n') : 'No problems reported.'
+    )];
+}
+
+/**
+ * Простой текстовый поиск по рабочей области: регистронезависимое совпадение подстроки,
+ * по одной строке контекста до и после каждого совпадения.
+ */
+async function attachWorkspaceSearch(query: string | undefined): Promise<ChatAttachment[]> {
+    const strings = getLocaleStrings();
+    const search = query || await vscode.window.showInputBox({ prompt: strings.workspaceSearchPrompt });
+    if (!search) {
+        return [];
+    }
+
+    const needle = search.toLowerCase();
+    const files = await vscode.workspace.findFiles('**/*', SEARCH_EXCLUDE, MAX_SEARCH_FILES);
+    const matches: string[] = [];
+    const decoder = new TextDecoder('utf-8');
+
+    for (const uri of files) {
+        if (matches.length >= MAX_SEARCH_MATCHES) {
+            break;
+        }
+        let text: string;
+        try {
+            const data = await vscode.workspace.fs.readFile(uri);
+            // Большие и двоичные файлы пропускаем
+            if (data.byteLength > MAX_SEARCH_FILE_SIZE || data.subarray(0, 1024).includes(0)) {
+                continue;
+            }
+            text = decoder.decode(data);
+        } catch {
+            continue;
+        }
+        if (!text.toLowerCase().includes(needle)) {
+            continue;
+        }
+
+        const lines = text.split(/\r?\n/);
+        const relativePath = vscode.workspace.asRelativePath(uri);
+        for (let i = 0; i < lines.length && matches.length < MAX_SEARCH_MATCHES; i++) {
+            if (lines[i].toLowerCase().includes(needle)) {
+                const start = Math.max(0, i - 1);
+                const snippet = lines.slice(start, Math.min(lines.length, i + 2))
+                    .map((line, index) => `${start + index + 1}: ${line}`)
+                    .join('\n');
+                matches.push(`${relativePath}\n${snippet}`);
+            }
+        }
+    }
+
+    if (matches.length === 0) {
+        vscode.window.showInformationMessage(strings.noWorkspaceMatches.replace('{0}', search));
+        return [];
+    }
+    return [createAttachment('workspace', `"${search}" (${matches.length})`, matches.join('\n\n'))];
+}
+
+export async function resolveMention(mention: Mention): Promise<ChatAttachment[]> {
+    switch (mention.kind) {
+        case 'selection':
+            return attachSelection();
+        case 'file':
+            return attachFiles(mention.arg);
+        case 'diagnostics':
+            return attachDiagnostics(mention.arg);
+        case 'workspace':
+            return attachWorkspaceSearch(mention.arg);
+    }
+}
+
+const ATTACHMENT_TITLES: Record<AttachmentKind, string> = {
+    selection: 'Selected code',
+    file: 'File',
+    diagnostics: 'Problems',
+    workspace: 'Workspace search results'
+};
+
+// Каждое вложение оборачивается в теги <attachment>, чтобы модель не путала его с вопросом
+export function formatAttachments(attachments: readonly ChatAttachment[]): string {
+    return attachments
+        .map(attachment => `<attachment type="${attachment.kind}" source="${attachment.label.replace(/"/g, "'")}">\n`
+            + `${ATTACHMENT_TITLES[attachment.kind]}: ${attachment.label}\n${attachment.content}\n</attachment>`)
+        .join('\n\n');
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { ChatRole } from './ollama/types';
+import { Logger } from './utils/logger';
+import { estimateTokens } from './utils/tokens';
+
+export interface ChatMessage {
+    role: ChatRole;
+    content: string;
+    // Время сообщения для отображения в чате, в API не отправляется
+    timestamp?: string;
+    // Код из редактора, приложенный к сообщению; отправляется модели перед текстом, в чате не показывается
+    context?: string;
+}
+
+// Текст сообщения в том виде, в котором он уходит в /api/chat
+function toRequestContent(message: ChatMessage): string {
+    return message.context ? `${message.context}\n\n${message.content}` : message.content;
+}
+
+export class ChatHistory {
+    private _messages: ChatMessage[] = [];
+
+    public get messages(): readonly ChatMessage[] {
+        return this._messages;
+    }
+
+    public get isEmpty(): boolean {
+        return this._messages.length === 0;
+    }
+
+    public addUserMessage(content: string, context?: string) {
+        this._messages.push({ role: 'user', content, context, timestamp: new Date().toLocaleTimeString() });
+    }
+
+    public addAssistantMessage(content: string) {
+        this._messages.push({ role: 'assistant', content, timestamp: new Date().toLocaleTimeString() });
+    }
+
+    // Убирает последнее сообщение пользователя, если на него так и не пришёл ответ
+    public discardPendingUserMessage() {
+        const last = this._messages[this._messages.length - 1];
+        if (last && last.role === 'user') {
+            this._messages.pop();
+        }
+    }
+
+    public clear() {
+        this._messages = [];
+    }
+
+    public load(messages: ChatMessage[]) {
+        this._messages = [...messages];
+    }
+
+    /**
+     * Собирает сообщения для /api/chat: системный промпт и столько последних реплик,
+     * сколько помещается в контекст модели с учётом места под ответ.
+     */
+    public buildRequestMessages(): ChatMessage[] {
+        const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+        const systemPrompt = config.get<string>('systemPrompt', '').trim();
+        const contextLength = config.get<number>('contextLength', 4096);
+        const maxTokens = config.get<number>('maxTokens', 2048);
+
+        // Оставляем место под ответ, но не меньше половины контекста под историю
+        const budget = Math.max(contextLength - maxTokens, Math.floor(contextLength / 2));
+
+        const result: ChatMessage[] = [];
+        let used = 0;
+        if (systemPrompt) {
+            used += estimateTokens(systemPrompt);
+        }
+
+        // Идём с конца, чтобы сохранить самые свежие реплики; последнее сообщение отправляется всегда
+        for (let i = this._messages.length - 1; i >= 0; i--) {
+            const message = this._messages[i];
+            const content = toRequestContent(message);
+            const tokens = estimateTokens(content);
+            if (result.length > 0 && used + tokens > budget) {
+                Logger.getInstance().debug(`Chat history trimmed: ${i + 1} older message(s) dropped to fit contextLength.`);
+                break;
+            }
+            used += tokens;
+            result.unshift({ role: message.role, content });
+        }
+
+        // История должна начинаться с реплики пользователя
+        while (result.length > 1 && result[0].role !== 'user') {
+            result.shift();
+        }
+
+        if (systemPrompt) {
+            result.unshift({ role: 'system', content: systemPrompt });
+        }
+
+        return result;
+    }
+}
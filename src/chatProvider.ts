@@ -1,40 +1,210 @@
 // chatProvider.ts
 import * as vscode from 'vscode';
-import axios, { AxiosError } from 'axios';
 import { getLocaleStrings } from './localization';
-import { RetryManager } from './utils/retry';
+import { isCancellationError } from './utils/retry';
+import { OllamaClient } from './ollama/client';
+import { OllamaError } from './ollama/errors';
+import { ChatHistory, ChatMessage } from './chatHistory';
+import { ChatSession, ChatSessionStore } from './chatSessions';
+import { PromptTemplateStore, PromptVariables, renderTemplate } from './promptTemplates';
+import { findEnclosingSymbol, formatDiagnostics, getSurroundingCode } from './fixer';
+import { describeCodeContext, formatCodeContext, gatherContext } from './contextBuilder';
+import { estimateTokens } from './utils/tokens';
+import { EditorTracker } from './utils/editorTracker';
+import { resolveWorkspacePath } from './utils/workspace';
+import { escapeHtml, getNonce } from './utils/html';
+import { FixPreviewManager } from './fixPreview';
+import { AttachmentKind, ChatAttachment, extractMentions, formatAttachments, resolveMention } from './chatAttachments';
+import { ModelTask, resolveModel } from './modelRouting';
+
+// Состояние, которое webview сохраняет через setState и которое возвращается в сериализатор
+export interface ChatPanelState {
+    sessionId?: string;
+}
+
+type CodeBlockAction = 'insert' | 'replace' | 'newFile' | 'diff' | 'applyToFile' | 'applyToSource';
+
+// Короткие имена языков из блоков кода в идентификаторы языков VS Code
+const LANGUAGE_ALIASES: Record<string, string> = {
+    js: 'javascript',
+    jsx: 'javascriptreact',
+    ts: 'typescript',
+    tsx: 'typescriptreact',
+    py: 'python',
+    rb: 'ruby',
+    sh: 'shellscript',
+    bash: 'shellscript',
+    zsh: 'shellscript',
+    shell: 'shellscript',
+    ps1: 'powershell',
+    cs: 'csharp',
+    'c#': 'csharp',
+    'c++': 'cpp',
+    kt: 'kotlin',
+    rs: 'rust',
+    md: 'markdown',
+    yml: 'yaml'
+};
+
+function toLanguageId(language: string): string {
+    const normalized = (language || '').toLowerCase();
+    return LANGUAGE_ALIASES[normalized] || normalized;
+}
+
+/**
+ * Фрагмент файла, который заменяет блок кода: от строки, совпадающей с первой строкой блока,
+ * до строки, совпадающей с последней, ближайшей к ожидаемому концу. Без совпадения — undefined.
+ */
+function findMatchingRegion(document: vscode.TextDocument, code: string): vscode.Range | undefined {
+    const lines = code.trim().split(/\r?\n/);
+    const first = lines[0].trim();
+    const last = lines[lines.length - 1].trim();
+    if (lines.length < 2 || !first || !last) {
+        return undefined;
+    }
+    // Модель может добавить или убрать несколько строк внутри фрагмента
+    const slack = Math.max(5, Math.floor(lines.length / 2));
+
+    for (let start = 0; start < document.lineCount; start++) {
+        if (document.lineAt(start).text.trim() !== first) {
+            continue;
+        }
+        // Последняя строка вроде «}» встречается часто, поэтому ищем от ожидаемого конца в обе стороны
+        const expected = start + lines.length - 1;
+        for (let distance = 0; distance <= slack; distance++) {
+            for (const end of [expected + distance, expected - distance]) {
+                if (end > start && end < document.lineCount && document.lineAt(end).text.trim() === last) {
+                    return new vscode.Range(start, 0, end, document.lineAt(end).text.length);
+                }
+            }
+        }
+    }
+    return undefined;
+}
+
+// Код из редактора, приложенный к сообщению чата, и его описание для пользователя
+interface EditorContext {
+    text: string;
+    description: string;
+}
+
+// Фрагмент, о котором спросили из редактора; ответ можно применить обратно к нему
+interface CodeSource {
+    uri: vscode.Uri;
+    range: vscode.Range;
+    originalText: string;
+    label: string;
+}
 
 export class OllamaCodeFixerChatProvider {
     private _panel: vscode.WebviewPanel | undefined;
     private _disposables: vscode.Disposable[] = [];
     private _strings = getLocaleStrings();
-    private _retryManager: RetryManager;
-
-    constructor(private readonly extensionUri: vscode.Uri) {
-        this._retryManager = new RetryManager();
+    private _abortController: AbortController | undefined;
+    // Текущий ответ модели; следующий вопрос ждёт его завершения, чтобы реплики в истории не перемешались
+    private _pendingResponse: Promise<void> | undefined;
+    private _messageCounter = 0;
+    private _history = new ChatHistory();
+    private _session: ChatSession;
+    // Вложения из упоминаний @..., которые уйдут со следующим сообщением
+    private _attachments: ChatAttachment[] = [];
+    private _source: CodeSource | undefined;
+    // Разрешается, когда скрипт webview загрузился и может принимать сообщения
+    private _ready: Promise<void> = Promise.resolve();
+    private _resolveReady: (() => void) | undefined;
+
+    public static readonly viewType = 'ollamaChat';
+
+    constructor(
+        private readonly extensionUri: vscode.Uri,
+        private readonly sessions: ChatSessionStore,
+        private readonly _client: OllamaClient,
+        private readonly _fixPreview: FixPreviewManager
+    ) {
+        const activeId = sessions.activeSessionId;
+        this._session = (activeId && sessions.get(activeId)) || sessions.create();
+        this._history.load(this._session.messages);
     }
 
-    public show() {
+    public show(viewColumn: vscode.ViewColumn = vscode.ViewColumn.Two, preserveFocus = false) {
         if (this._panel) {
-            this._panel.reveal();
+            this._panel.reveal(viewColumn === vscode.ViewColumn.Beside ? undefined : viewColumn, preserveFocus);
         } else {
-            this._panel = vscode.window.createWebviewPanel(
-                'ollamaChat',
+            const panel = vscode.window.createWebviewPanel(
+                OllamaCodeFixerChatProvider.viewType,
                 'Ollama Code Fixer Chat',
-                vscode.ViewColumn.Two,
+                { viewColumn, preserveFocus },
                 {
                     enableScripts: true,
                     retainContextWhenHidden: true,
                     localResourceRoots: [this.extensionUri]
                 }
             );
+            this.attachPanel(panel);
+        }
+    }
 
-            this._panel.webview.html = this.getWebviewContent();
-            this.setupMessageHandling();
-
-            this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+    // Вызывается сериализатором, когда VS Code восстанавливает панель после перезагрузки окна
+    public restorePanel(panel: vscode.WebviewPanel, state: ChatPanelState | undefined) {
+        if (this._panel) {
+            this._panel.dispose();
         }
-    }    private setupMessageHandling() {
+        if (state?.sessionId && state.sessionId !== this._session.id) {
+            const session = this.sessions.get(state.sessionId);
+            if (session) {
+                this.loadSession(session);
+            }
+        }
+        panel.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [this.extensionUri]
+        };
+        this.attachPanel(panel);
+    }
+
+    /**
+     * Открывает чат рядом с редактором и сразу задаёт вопрос о фрагменте кода.
+     * Фрагмент запоминается, чтобы блоки кода из ответа можно было применить к нему.
+     */
+    public async askAboutCode(document: vscode.TextDocument, range: vscode.Range, prompt: string, task: ModelTask = 'chat') {
+        this.show(vscode.ViewColumn.Beside, true);
+        await this._ready;
+        // Новый фрагмент заменяет источник, поэтому прежний ответ останавливаем заранее
+        await this.stopPendingResponse();
+
+        const context = await this.buildCodeContext(document, range, prompt);
+        this._source = {
+            uri: document.uri,
+            range,
+            originalText: document.getText(range),
+            label: context.label
+        };
+        this.postSource();
+        await this.handleChatMessage(prompt, this.takeAttachments(context), task);
+    }
+
+    private attachPanel(panel: vscode.WebviewPanel) {
+        this._panel = panel;
+        this._ready = new Promise(resolve => {
+            this._resolveReady = resolve;
+        });
+        this._panel.webview.html = this.getWebviewContent(panel.webview);
+        this.setupMessageHandling();
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        // Список шаблонов в чате обновляется при изменении папки и смене редактора
+        this._disposables.push(
+            PromptTemplateStore.getInstance().onDidChange(() => this.postTemplates()),
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (editor) {
+                    this.postTemplates();
+                }
+            })
+        );
+    }
+
+    private setupMessageHandling() {
         if (!this._panel) {
             return;
         }
@@ -43,10 +213,42 @@ export class OllamaCodeFixerChatProvider {
             async (message) => {
                 switch (message.command) {
                     case 'sendMessage':
-                        await this.handleChatMessage(message.text);
+                        await this.sendUserMessage(message.text, message.includeContext);
+                        break;
+                    case 'addAttachment':
+                        await this.addAttachments(message.kind, message.arg);
+                        break;
+                    case 'removeAttachment':
+                        this._attachments = this._attachments.filter(attachment => attachment.id !== message.id);
+                        this.postAttachments();
+                        break;
+                    case 'stopGeneration':
+                        this.stopGeneration();
+                        break;
+                    case 'webviewReady':
+                        this.postSessionState();
+                        this.postTemplates();
+                        this.postAttachments();
+                        this.postSource();
+                        this._resolveReady?.();
+                        break;
+                    case 'useTemplate':
+                        await this.useTemplate(message.name, message.input);
+                        break;
+                    case 'newConversation':
+                        await this.newConversation();
                         break;
-                    case 'applyCode':
-                        await this.applyCodeToEditor(message.code);
+                    case 'switchSession':
+                        await this.switchSession(message.id);
+                        break;
+                    case 'renameSession':
+                        await this.renameSession(message.id);
+                        break;
+                    case 'deleteSession':
+                        await this.deleteSession(message.id);
+                        break;
+                    case 'codeAction':
+                        await this.handleCodeAction(message.action, message.code, message.language, message.path);
                         break;
                     case 'insertPrompt':
                         this._panel?.webview.postMessage({
@@ -59,7 +261,127 @@ export class OllamaCodeFixerChatProvider {
             undefined,
             this._disposables
         );
-    }    private async handleChatMessage(userMessage: string) {
+    }
+
+    // Упоминания в тексте превращаются во вложения; сообщение из одних упоминаний только добавляет их
+    private async sendUserMessage(text: string, includeContext: boolean) {
+        const { text: question, mentions } = extractMentions(text);
+        for (const mention of mentions) {
+            await this.addAttachments(mention.kind, mention.arg);
+        }
+        if (!question) {
+            return;
+        }
+
+        const editorContext = includeContext ? await this.buildEditorContext(question) : undefined;
+        await this.handleChatMessage(question, this.takeAttachments(editorContext));
+    }
+
+    private async addAttachments(kind: AttachmentKind, arg?: string) {
+        const attachments = await resolveMention({ kind, arg });
+        this._attachments.push(...attachments);
+        this.postAttachments();
+    }
+
+    // Забирает вложения для отправки вместе с контекстом редактора и очищает их список
+    private takeAttachments(editorContext?: EditorContext): EditorContext | undefined {
+        const attachments = this._attachments;
+        if (attachments.length === 0) {
+            return editorContext;
+        }
+        this._attachments = [];
+        this.postAttachments();
+
+        return {
+            text: [editorContext?.text, formatAttachments(attachments)].filter(Boolean).join('\n\n'),
+            description: [editorContext?.description, ...attachments.map(attachment => `@${attachment.kind} ${attachment.label}`)]
+                .filter(Boolean)
+                .join(', ')
+        };
+    }
+
+    private postAttachments() {
+        this._panel?.webview.postMessage({
+            command: 'attachments',
+            attachments: this._attachments.map(({ id, kind, label, tokens }) => ({ id, kind, label, tokens }))
+        });
+    }
+
+    /**
+     * Контекст из последнего редактора: выделение (или символ под курсором) и связанные
+     * с ним импорты и определения в пределах бюджета токенов.
+     */
+    private async buildEditorContext(userMessage: string): Promise<EditorContext | undefined> {
+        const editor = EditorTracker.getInstance().lastEditor;
+        if (!editor) {
+            return undefined;
+        }
+
+        const document = editor.document;
+        let range: vscode.Range | undefined = editor.selection.isEmpty ? undefined : editor.selection;
+        if (!range) {
+            range = (await findEnclosingSymbol(document, editor.selection))?.range;
+        }
+        if (!range) {
+            return undefined;
+        }
+        return this.buildCodeContext(document, range, userMessage);
+    }
+
+    private async buildCodeContext(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        userMessage: string
+    ): Promise<EditorContext & { label: string }> {
+        const fileName = vscode.workspace.asRelativePath(document.uri);
+        const label = `${fileName}:${range.start.line + 1}-${range.end.line + 1}`;
+        let text = `Code from ${label}:\n\`\`\`${document.languageId}\n${document.getText(range)}\n\`\`\``;
+        let description = label;
+
+        const codeContext = await gatherContext(document, range, estimateTokens(userMessage));
+        if (codeContext && codeContext.items.length > 0) {
+            text += `\n\nRelated code from the project:\n\`\`\`\n${formatCodeContext(codeContext)}\n\`\`\``;
+        }
+        if (codeContext) {
+            description += `; ${describeCodeContext(codeContext)}`;
+        }
+        return { text, description, label };
+    }
+
+    // Все входы в чат (ввод, шаблоны, быстрые действия) идут сюда: одновременно идёт только один ответ
+    private async handleChatMessage(userMessage: string, editorContext?: EditorContext, task: ModelTask = 'chat') {
+        if (!this._panel) {
+            return;
+        }
+        // Проверка и запуск без await между ними, чтобы два вопроса не прошли проверку одновременно
+        while (this._pendingResponse) {
+            await this.stopPendingResponse();
+        }
+
+        const pending = this.respond(userMessage, editorContext, task);
+        this._pendingResponse = pending;
+        try {
+            await pending;
+        } finally {
+            if (this._pendingResponse === pending) {
+                this._pendingResponse = undefined;
+            }
+        }
+    }
+
+    // Останавливает текущий ответ и ждёт, пока он допишет историю и снимет индикатор загрузки
+    private async stopPendingResponse() {
+        while (this._pendingResponse) {
+            const pending = this._pendingResponse;
+            this.stopGeneration();
+            await pending.catch(() => undefined);
+            if (this._pendingResponse === pending) {
+                this._pendingResponse = undefined;
+            }
+        }
+    }
+
+    private async respond(userMessage: string, editorContext: EditorContext | undefined, task: ModelTask) {
         if (!this._panel) {
             return;
         }
@@ -80,68 +402,244 @@ export class OllamaCodeFixerChatProvider {
             loading: true
         });
 
-        try {
-            const response = await this.getOllamaResponse(userMessage);
-            
-            // Отправляем ответ AI в чат
-            this._panel.webview.postMessage({
-                command: 'addMessage',
-                message: {
-                    type: 'assistant',
-                    content: response,
-                    timestamp: new Date().toLocaleTimeString()
-                }
-            });        } catch (error: unknown) {
-            const errorMessage = error instanceof Error 
-                ? error.message 
-                : typeof error === 'string'
-                    ? error
-                    : 'Произошла неизвестная ошибка';
-                    
+        if (editorContext) {
             this._panel.webview.postMessage({
-                command: 'addMessage',
-                message: {
-                    type: 'error',
-                    content: `Ошибка: ${errorMessage}`,
-                    timestamp: new Date().toLocaleTimeString()
-                }
+                command: 'contextInfo',
+                description: editorContext.description
             });
+        }
+
+        const session = this._session;
+        this._history.addUserMessage(userMessage, editorContext?.text);
+        await this.persistSession();
+
+        const messageId = `msg-${Date.now()}-${++this._messageCounter}`;
+        const abortController = new AbortController();
+        this._abortController = abortController;
+        let started = false;
+
+        try {
+            const response = await this.getOllamaResponse(abortController.signal, (delta) => {
+                if (!started) {
+                    started = true;
+                    this._panel?.webview.postMessage({
+                        command: 'startMessage',
+                        id: messageId,
+                        timestamp: new Date().toLocaleTimeString()
+                    });
+                }
+                this._panel?.webview.postMessage({
+                    command: 'appendDelta',
+                    id: messageId,
+                    delta
+                });
+            }, task);
+
+            // Пока шёл ответ, пользователь мог переключиться на другую сессию
+            if (this._session === session) {
+                if (response) {
+                    this._history.addAssistantMessage(response);
+                } else {
+                    this._history.discardPendingUserMessage();
+                }
+                await this.persistSession();
+            }
+        } catch (error: unknown) {
+            if (this._session === session) {
+                this._history.discardPendingUserMessage();
+                await this.persistSession();
+            }
+            if (!abortController.signal.aborted) {
+                const errorMessage = error instanceof Error 
+                    ? error.message 
+                    : typeof error === 'string'
+                        ? error
+                        : this._strings.unknownError;
+                        
+                this._panel?.webview.postMessage({
+                    command: 'addMessage',
+                    message: {
+                        type: 'error',
+                        content: `${this._strings.error}: ${errorMessage}`,
+                        timestamp: new Date().toLocaleTimeString()
+                    }
+                });
+            }
         } finally {
-            this._panel.webview.postMessage({
+            if (this._abortController === abortController) {
+                this._abortController = undefined;
+            }
+            // Частичный ответ остаётся в чате даже после остановки
+            if (started) {
+                this._panel?.webview.postMessage({
+                    command: 'finishMessage',
+                    id: messageId,
+                    stopped: abortController.signal.aborted
+                });
+            }
+            this._panel?.webview.postMessage({
                 command: 'setLoading',
                 loading: false
             });
         }
     }
 
-    private async getOllamaResponse(message: string): Promise<string> {
-        const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
-        let baseApiUrl = config.get<string>('ollamaApiUrl', 'http://localhost:11434');
-        
-        try {
-            new URL(baseApiUrl);
-            baseApiUrl = baseApiUrl.replace(/\/+$/, '');
-        } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : this._strings.unknownError;
-            console.error(`[OllamaCodeFixer] ${this._strings.invalidUrl} ${baseApiUrl}: ${errorMessage}`);
-            baseApiUrl = 'http://localhost:11434';
+    public async newConversation() {
+        this.stopGeneration();
+        this.loadSession(this.sessions.create());
+        await this.sessions.setActiveSessionId(this._session.id);
+        this.postSessionState();
+    }
+
+    private async switchSession(id: string) {
+        const session = this.sessions.get(id);
+        if (!session || session.id === this._session.id) {
+            return;
         }
+        this.stopGeneration();
+        this.loadSession(session);
+        await this.sessions.setActiveSessionId(session.id);
+        this.postSessionState();
+    }
 
-        const modelName = config.get<string>('modelName', 'llama2');
-        const chatEndpoint = '/api/chat';
-        const fullApiUrl = `${baseApiUrl}${chatEndpoint}`;
+    private async renameSession(id: string) {
+        const session = id === this._session.id ? this._session : this.sessions.get(id);
+        if (!session || session.messages.length === 0) {
+            return;
+        }
+        const title = await vscode.window.showInputBox({
+            prompt: this._strings.renameSessionPrompt,
+            value: session.title
+        });
+        if (!title || !title.trim()) {
+            return;
+        }
+        session.title = title.trim();
+        session.customTitle = true;
+        await this.sessions.save(session);
+        this.postSessionState();
+    }
 
-        const logLevel = config.get<string>('logLevel', 'info');
+    private async deleteSession(id: string) {
+        const session = this.sessions.get(id);
+        if (!session) {
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(
+            this._strings.deleteSessionConfirm.replace('{0}', session.title),
+            { modal: true },
+            this._strings.deleteSession
+        );
+        if (choice !== this._strings.deleteSession) {
+            return;
+        }
+        await this.sessions.delete(id);
+        if (id === this._session.id) {
+            await this.newConversation();
+        } else {
+            this.postSessionState();
+        }
+    }
 
-        try {
-            // Проверяем доступность модели с помощью RetryManager
-            const modelCheckResponse = await this._retryManager.withRetry(async () => {
-                return axios.get(`${baseApiUrl}/api/tags`);
-            });
+    // Кнопки чата для шаблонов из .ollamafixer/prompts, подходящих к языку последнего редактора
+    private postTemplates() {
+        const languageId = EditorTracker.getInstance().lastEditor?.document.languageId;
+        this._panel?.webview.postMessage({
+            command: 'templates',
+            templates: PromptTemplateStore.getInstance().getTemplates('chat', languageId)
+                .map(({ name, description }) => ({ name, description }))
+        });
+    }
+
+    private async useTemplate(name: string, userInput: string) {
+        const template = PromptTemplateStore.getInstance().find('chat', name);
+        if (!template) {
+            return;
+        }
+
+        const editor = EditorTracker.getInstance().lastEditor;
+        const variables: PromptVariables = { userInput };
+        if (editor) {
+            const document = editor.document;
+            const range = editor.selection.isEmpty
+                ? new vscode.Range(0, 0, document.lineCount, 0)
+                : editor.selection;
+            variables.selection = document.getText(range);
+            variables.fileName = vscode.workspace.asRelativePath(document.uri);
+            variables.language = document.languageId;
+            variables.surroundingCode = getSurroundingCode(document, document.validateRange(range));
+            variables.diagnostics = formatDiagnostics(
+                vscode.languages.getDiagnostics(document.uri).filter(d => range.intersection(d.range) !== undefined)
+            );
+        }
+
+        await this.handleChatMessage(renderTemplate(template.body, variables).trim(), this.takeAttachments());
+    }
+
+    private loadSession(session: ChatSession) {
+        this._session = session;
+        this._history.load(session.messages);
+        this._source = undefined;
+        this.postSource();
+    }
+
+    private postSource() {
+        this._panel?.webview.postMessage({
+            command: 'source',
+            label: this._source?.label
+        });
+    }
 
-            const availableModels = modelCheckResponse.data?.models || [];
+    // Сохраняет текущую сессию; пустые сессии в хранилище не попадают
+    private async persistSession() {
+        this._session.messages = [...this._history.messages];
+        if (this._session.messages.length > 0) {
+            await this.sessions.save(this._session);
+        }
+        await this.sessions.setActiveSessionId(this._session.id);
+        this._panel?.webview.postMessage({
+            command: 'sessionList',
+            sessions: this.sessions.list(),
+            activeId: this._session.id
+        });
+    }
+
+    private postSessionState() {
+        this._panel?.webview.postMessage({
+            command: 'loadSession',
+            sessionId: this._session.id,
+            messages: this._history.messages.map((message: ChatMessage) => ({
+                type: message.role,
+                content: message.content,
+                timestamp: message.timestamp || ''
+            })),
+            sessions: this.sessions.list(),
+            activeId: this._session.id
+        });
+    }
+
+    private stopGeneration() {
+        if (this._abortController) {
+            console.log('[OllamaCodeFixer] User stopped the chat response.');
+            this._abortController.abort();
+        }
+    }
+
+    private async getOllamaResponse(
+        signal: AbortSignal,
+        onDelta: (delta: string) => void,
+        task: ModelTask = 'chat'
+    ): Promise<string> {
+        const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+        // Модель выбирается по задаче и языку редактора, из которого пришёл вопрос
+        const languageId = EditorTracker.getInstance().lastEditor?.document.languageId;
+        const { model: modelName, options, route } = resolveModel(task, languageId);
+
+        try {
+            // Проверяем, что модель установлена
+            const availableModels = await this._client.listModels(signal);
             
-            if (!availableModels.some((model: any) => model.name === modelName)) {
+            if (!availableModels.some(model => model.name === modelName)) {
                 console.error(`[OllamaCodeFixer] ${this._strings.modelNotInstalled.replace('{0}', modelName)}`);
                 
                 const choice = await vscode.window.showErrorMessage(
@@ -152,143 +650,212 @@ export class OllamaCodeFixerChatProvider {
 
                 if (choice === this._strings.installModel) {
                     await this.installOllamaModel(modelName);
+                    onDelta(this._strings.modelInstallStarted.replace('{0}', modelName));
                     return this._strings.modelInstallStarted.replace('{0}', modelName);
                 } else if (choice === this._strings.changeModel) {
-                    const newModel = await vscode.window.showQuickPick(
-                        availableModels.map((m: any) => m.name),
-                        {
-                            placeHolder: this._strings.selectAvailableModel
+                    if (route) {
+                        // Модель задана правилом маршрутизации, поэтому modelName её не заменит
+                        await vscode.commands.executeCommand('workbench.action.openSettings', 'ollamaCodeFixer.modelRoutes');
+                    } else {
+                        const newModel = await this.showModelSelector();
+
+                        if (newModel) {
+                            await config.update('modelName', newModel, true);
+                            return this.getOllamaResponse(signal, onDelta, task);
                         }
-                    );
-                    
-                    if (newModel) {
-                        await config.update('modelName', newModel, true);
-                        return this.getOllamaResponse(message);
                     }
                 }
                 
+                onDelta(this._strings.modelNotInstalled.replace('{0}', modelName));
                 return this._strings.modelNotInstalled.replace('{0}', modelName);
             }
         } catch (error: unknown) {
+            if (signal.aborted) {
+                throw error;
+            }
             console.error('[OllamaCodeFixer] Failed to check available models:', error);
             if (error instanceof Error) {
-                vscode.window.showWarningMessage(`Failed to check models: ${error.message}`);
+                vscode.window.showWarningMessage(this._strings.modelCheckFailed.replace('{0}', error.message));
             }
         }
 
-        const payload = {
-            model: modelName,
-            messages: [{ role: "user", content: message }],
-            stream: false,
-            options: {
-                temperature: config.get<number>('temperature', 0.7),
-                top_p: config.get<number>('topP', 0.9),
-                top_k: config.get<number>('topK', 40),
-                repeat_penalty: config.get<number>('repeatPenalty', 1.1),
-                presence_penalty: config.get<number>('presencePenalty', 0),
-                frequency_penalty: config.get<number>('frequencyPenalty', 0),
-                mirostat: config.get<number>('mirostat', 0),
-                mirostat_tau: config.get<number>('mirostatTau', 5.0),
-                mirostat_eta: config.get<number>('mirostatEta', 0.1),
-                num_ctx: config.get<number>('contextLength', 4096),
-                num_predict: config.get<number>('maxTokens', 2048),
-                stop: config.get<string[]>('stopSequences', ["[/INST]", "</s>", "```"]),
-                seed: config.get<number>('seed', -1)
-            }
-        };
-
-        if (logLevel === 'debug') {
-            console.debug('[OllamaCodeFixer CHAT] Request details:');
-            console.debug(`- Base URL: ${baseApiUrl}`);
-            console.debug(`- Full URL: ${fullApiUrl}`);
-            console.debug(`- Model: ${modelName}`);
-            console.debug(`- Payload: ${JSON.stringify(payload, null, 2)}`);
-        }
-
         try {
-            if (!fullApiUrl.startsWith('http://') && !fullApiUrl.startsWith('https://')) {
-                throw new Error(`Invalid URL protocol: ${fullApiUrl}`);
+            const content = await this._client.chatStream(
+                {
+                    model: modelName,
+                    messages: this._history.buildRequestMessages(),
+                    options
+                },
+                chunk => {
+                    if (chunk.message?.content) {
+                        onDelta(chunk.message.content);
+                    }
+                },
+                signal
+            );
+            return content.trim();
+        } catch (error: unknown) {
+            if (signal.aborted || isCancellationError(error)) {
+                throw error;
             }
+            console.error('[OllamaCodeFixer] Error:', error);
+            throw error instanceof OllamaError ? error : new OllamaError(this._strings.unknownError, error);
+        }
+    }
 
-            // Используем RetryManager для запроса к API
-            const response = await this._retryManager.withRetry(async () => {
-                return axios.post(fullApiUrl, payload, {
-                    timeout: config.get<number>('requestTimeout', 90000)
-                });
-            });
-            
-            if (logLevel === 'debug') {
-                console.debug(`[OllamaCodeFixer CHAT] Raw response from model: ${JSON.stringify(response.data, null, 2)}`);
-            }
+    private async handleCodeAction(action: CodeBlockAction, code: string, language: string, filePath?: string) {
+        switch (action) {
+            case 'insert':
+            case 'replace':
+                await this.applyCodeToEditor(code, action === 'replace');
+                break;
+            case 'newFile':
+                await this.openAsUntitled(code, language);
+                break;
+            case 'diff':
+                await this.showDiffWithSelection(code);
+                break;
+            case 'applyToFile':
+                if (filePath) {
+                    await this.applyCodeToFile(code, filePath);
+                }
+                break;
+            case 'applyToSource':
+                await this.applyCodeToSource(code);
+                break;
+        }
+    }
 
-            return response.data.message && response.data.message.content 
-                ? response.data.message.content.trim() 
-                : JSON.stringify(response.data);
+    // Предлагает заменить исходный фрагмент через diff; если его уже сдвинули правками, ищем его по тексту
+    private async applyCodeToSource(code: string) {
+        const source = this._source;
+        if (!source) {
+            return;
+        }
 
-        } catch (error: unknown) {
-            let errorMessage = 'Ошибка взаимодействия с Ollama: ';
-            
-            if (error instanceof AxiosError) {
-                errorMessage += error.message;
-                
-                if (error.response) {
-                    errorMessage += ` (Статус: ${error.response.status})`;
-                    if (error.response.data) {
-                        errorMessage += `\nДетали: ${JSON.stringify(error.response.data)}`;
-                    }
-                } else if (error.request) {
-                    errorMessage += '\nНет ответа от сервера Ollama. Проверьте, что сервис запущен и доступен.';
-                }
-                
-                if (logLevel === 'debug') {
-                    console.error('[OllamaCodeFixer] Подробности ошибки API:', {
-                        message: error.message,
-                        config: error.config,
-                        response: error.response?.data
-                    });
-                }
-            } else if (error instanceof Error) {
-                errorMessage += error.message;
-            } else {
-                errorMessage += 'Неизвестная ошибка';
+        const document = await vscode.workspace.openTextDocument(source.uri);
+        let range = document.validateRange(source.range);
+        if (document.getText(range) !== source.originalText) {
+            const offset = document.getText().indexOf(source.originalText);
+            if (offset < 0) {
+                vscode.window.showWarningMessage(this._strings.sourceChanged.replace('{0}', source.label));
+                return;
             }
-            
-            console.error('[OllamaCodeFixer] Error:', errorMessage);
-            return errorMessage;
+            range = new vscode.Range(document.positionAt(offset), document.positionAt(offset + source.originalText.length));
         }
-    }    private async applyCodeToEditor(code: string) {
-        const editor = vscode.window.activeTextEditor;
+        await this._fixPreview.showSuggestion(document, range, source.originalText, code);
+    }
+
+    // Фокус в этот момент у панели чата, поэтому код идёт в последний редактор, а не в активный
+    private getTargetEditor(): vscode.TextEditor | undefined {
+        const editor = EditorTracker.getInstance().lastEditor;
         if (!editor) {
             vscode.window.showErrorMessage(this._strings.noActiveEditor);
+        }
+        return editor;
+    }
+
+    private async applyCodeToEditor(code: string, replaceSelection: boolean) {
+        const editor = this.getTargetEditor();
+        if (!editor) {
             return;
         }
 
         const selection = editor.selection;
-        await editor.edit(editBuilder => {
-            if (selection.isEmpty) {
-                editBuilder.insert(selection.start, code);
-            } else {
+        if (replaceSelection && selection.isEmpty) {
+            vscode.window.showWarningMessage(this._strings.noSelection);
+            return;
+        }
+
+        const applied = await editor.edit(editBuilder => {
+            if (replaceSelection) {
                 editBuilder.replace(selection, code);
+            } else {
+                editBuilder.insert(selection.active, code);
             }
         });
+        if (!applied) {
+            return;
+        }
 
+        await vscode.window.showTextDocument(editor.document, { viewColumn: editor.viewColumn, selection: editor.selection });
         vscode.window.showInformationMessage(this._strings.codeAppliedSuccess);
-    }    private async installOllamaModel(modelName: string): Promise<void> {
-        const terminal = vscode.window.createTerminal('Ollama Model Installation');
-        terminal.show();
-        terminal.sendText(`ollama pull ${modelName}`);
-        
-        // Показываем информационное сообщение
-        vscode.window.showInformationMessage(
-            this._strings.modelInstallProgress.replace('{0}', modelName),
-            this._strings.understood
-        );
     }
 
-    private async getAvailableModels(baseUrl: string): Promise<string[]> {
+    private async openAsUntitled(code: string, language: string) {
+        const languages = await vscode.languages.getLanguages();
+        const languageId = toLanguageId(language);
+        const document = await vscode.workspace.openTextDocument({
+            content: code,
+            language: languages.includes(languageId) ? languageId : 'plaintext'
+        });
+        await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+    }
+
+    // Diff с выделением (или со всем файлом) открывается через предпросмотр исправлений, где его можно принять
+    private async showDiffWithSelection(code: string) {
+        const editor = this.getTargetEditor();
+        if (!editor) {
+            return;
+        }
+
+        const document = editor.document;
+        const range = editor.selection.isEmpty
+            ? new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length))
+            : new vscode.Range(editor.selection.start, editor.selection.end);
+        await this._fixPreview.showSuggestion(document, range, document.getText(range), code);
+    }
+
+    /**
+     * Применяет блок к файлу, путь к которому указала модель. Новый файл создаётся через
+     * предпросмотр рефакторинга, а для существующего открывается diff с найденным в нём
+     * фрагментом (или со всем файлом), который применяется только после подтверждения.
+     */
+    private async applyCodeToFile(code: string, filePath: string) {
+        const uri = await resolveWorkspacePath(filePath);
+        if (!uri) {
+            vscode.window.showErrorMessage(this._strings.fileOutsideWorkspace.replace('{0}', filePath));
+            return;
+        }
+
+        let exists = true;
+        try {
+            await vscode.workspace.fs.stat(uri);
+        } catch {
+            exists = false;
+        }
+
+        if (exists) {
+            // Блок в ответе обычно содержит одну функцию, а не весь файл
+            const document = await vscode.workspace.openTextDocument(uri);
+            const range = findMatchingRegion(document, code)
+                ?? new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+            await this._fixPreview.showSuggestion(document, range, document.getText(range), code);
+            return;
+        }
+
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            needsConfirmation: true,
+            label: this._strings.applyToFileButton.replace('{0}', filePath),
+            description: vscode.workspace.asRelativePath(uri)
+        };
+        const edit = new vscode.WorkspaceEdit();
+        edit.createFile(uri, { ignoreIfExists: true }, metadata);
+        edit.insert(uri, new vscode.Position(0, 0), code.endsWith('\n') ? code : code + '\n', metadata);
+        if (await vscode.workspace.applyEdit(edit)) {
+            await vscode.window.showTextDocument(uri, { viewColumn: vscode.ViewColumn.One, preview: false });
+        }
+    }
+
+    private async installOllamaModel(modelName: string): Promise<void> {
+        // Загрузка идёт через менеджер моделей с прогрессом в уведомлении; ответ чата не ждёт её окончания
+        void vscode.commands.executeCommand('ollama-code-fixer.pullModel', modelName);
+    }
+
+    private async getAvailableModels(): Promise<string[]> {
         try {
-            const response = await axios.get(`${baseUrl}/api/tags`);
-            return response.data?.models?.map((m: any) => m.name) || [];
+            const models = await this._client.listModels();
+            return models.map(m => m.name);
         } catch (error) {
             console.error('[OllamaCodeFixer] Failed to fetch available models:', error);
             return [];
@@ -296,25 +863,52 @@ export class OllamaCodeFixerChatProvider {
     }
 
     private async showModelSelector(): Promise<string | undefined> {
-        const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
-        const baseUrl = config.get<string>('ollamaApiUrl', 'http://localhost:11434');
-        
-        const models = await this.getAvailableModels(baseUrl);
+        const models = await this.getAvailableModels();
         
         return vscode.window.showQuickPick(models, {
-            placeHolder: this._strings.selectModel
+            placeHolder: this._strings.selectAvailableModel
         });
     }
 
-    private getWebviewContent(): string {
+    private getWebviewContent(webview: vscode.Webview): string {
+        // Скрипты и стили выполняются только с nonce этой страницы, inline-обработчики запрещены политикой
+        const nonce = getNonce();
+        const markdownUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'markdown.js'));
+        const quickPrompts = [
+            this._strings.fixErrorsPrompt,
+            this._strings.optimizePrompt,
+            this._strings.addCommentsPrompt,
+            this._strings.refactorPrompt,
+            this._strings.checkSecurityPrompt,
+            this._strings.createTestsPrompt,
+            this._strings.explainCodePrompt
+        ].map(prompt => `<button class="prompt-btn" data-prompt="${escapeHtml(prompt)}">${escapeHtml(prompt)}</button>`).join('\n                    ');
+        // JSON встраивается в <script>, поэтому "<" экранируется, чтобы строка не закрыла тег
+        const strings = JSON.stringify({
+            copyButton: this._strings.copyButton,
+            insertButton: this._strings.insertButton,
+            replaceSelectionButton: this._strings.replaceSelectionButton,
+            newFileButton: this._strings.newFileButton,
+            diffButton: this._strings.diffButton,
+            applyToFileButton: this._strings.applyToFileButton,
+            copied: this._strings.copyButton,
+            loadingMessage: this._strings.loadingMessage,
+            generationStopped: this._strings.generationStopped,
+            welcomeMessage: this._strings.welcomeMessage,
+            newConversation: this._strings.newConversationButton,
+            contextIncluded: this._strings.contextIncluded,
+            removeAttachment: this._strings.removeAttachment
+        }).replace(/</g, '\\u003c');
+
         return `
         <!DOCTYPE html>
         <html lang="${this._strings.language}">
         <head>
             <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src ${webview.cspSource} 'nonce-${nonce}'; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
             <title>${this._strings.chatTitle}</title>
-            <style>
+            <style nonce="${nonce}">
                 * {
                     margin: 0;
                     padding: 0;
@@ -342,6 +936,31 @@ export class OllamaCodeFixerChatProvider {
                     margin-bottom: 8px;
                 }
 
+                .header-row {
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: center;
+                    gap: 8px;
+                }
+
+                .session-bar {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    margin-bottom: 8px;
+                    font-size: 12px;
+                }
+
+                .session-select {
+                    flex: 1;
+                    min-width: 0;
+                    background: var(--vscode-dropdown-background);
+                    color: var(--vscode-dropdown-foreground);
+                    border: 1px solid var(--vscode-dropdown-border);
+                    border-radius: 4px;
+                    padding: 4px;
+                }
+
                 .prompts-section {
                     padding: 16px;
                     border-bottom: 1px solid var(--vscode-panel-border);
@@ -355,6 +974,11 @@ export class OllamaCodeFixerChatProvider {
                     opacity: 0.8;
                 }
 
+                .template-title {
+                    display: none;
+                    margin-top: 12px;
+                }
+
                 .prompt-buttons {
                     display: flex;
                     flex-wrap: wrap;
@@ -427,12 +1051,73 @@ export class OllamaCodeFixerChatProvider {
                     overflow-x: auto;
                 }
 
+                .code-block pre {
+                    margin: 0;
+                    white-space: pre;
+                }
+
+                .code-language {
+                    font-size: 11px;
+                    opacity: 0.7;
+                    margin-bottom: 6px;
+                    text-transform: lowercase;
+                }
+
+                .tok-keyword {
+                    color: var(--vscode-symbolIcon-keywordForeground, #569cd6);
+                }
+
+                .tok-string {
+                    color: var(--vscode-debugTokenExpression-string, #ce9178);
+                }
+
+                .tok-number {
+                    color: var(--vscode-debugTokenExpression-number, #b5cea8);
+                }
+
+                .tok-comment {
+                    color: var(--vscode-descriptionForeground);
+                    font-style: italic;
+                }
+
+                .inline-code {
+                    font-family: var(--vscode-editor-font-family), monospace;
+                    background: var(--vscode-textCodeBlock-background);
+                    padding: 1px 4px;
+                    border-radius: 3px;
+                }
+
+                .message-content p,
+                .message-content ul,
+                .message-content ol,
+                .message-content blockquote {
+                    margin: 4px 0;
+                }
+
+                .message-content ul,
+                .message-content ol {
+                    padding-left: 20px;
+                }
+
+                .message-content blockquote {
+                    border-left: 3px solid var(--vscode-textBlockQuote-border);
+                    padding-left: 8px;
+                    opacity: 0.9;
+                }
+
+                .md-heading {
+                    margin: 8px 0 4px;
+                }
+
+                .message-content a {
+                    color: var(--vscode-textLink-foreground);
+                }
+
                 .code-actions {
-                    position: absolute;
-                    top: 8px;
-                    right: 8px;
                     display: flex;
+                    flex-wrap: wrap;
                     gap: 4px;
+                    margin-top: 8px;
                 }
 
                 .code-btn {
@@ -470,6 +1155,83 @@ export class OllamaCodeFixerChatProvider {
                     font-family: inherit;
                 }
 
+                .attachments {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 6px;
+                    margin-bottom: 8px;
+                }
+
+                .attachments:empty {
+                    display: none;
+                }
+
+                .chip {
+                    display: inline-flex;
+                    align-items: center;
+                    gap: 4px;
+                    background: var(--vscode-badge-background);
+                    color: var(--vscode-badge-foreground);
+                    border-radius: 10px;
+                    padding: 2px 4px 2px 8px;
+                    font-size: 11px;
+                    max-width: 100%;
+                }
+
+                .chip-label {
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                }
+
+                .chip-remove {
+                    background: none;
+                    border: none;
+                    color: inherit;
+                    cursor: pointer;
+                    font-size: 12px;
+                    line-height: 1;
+                    padding: 0 4px;
+                }
+
+                .mention-bar {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 4px;
+                    margin-top: 8px;
+                }
+
+                .mention-btn {
+                    background: none;
+                    border: 1px solid var(--vscode-panel-border);
+                    color: var(--vscode-foreground);
+                    border-radius: 3px;
+                    padding: 2px 6px;
+                    font-size: 11px;
+                    cursor: pointer;
+                }
+
+                .mention-btn:hover {
+                    background: var(--vscode-list-hoverBackground);
+                }
+
+                .context-toggle {
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                    margin-top: 8px;
+                    font-size: 12px;
+                    opacity: 0.8;
+                }
+
+                .context-info {
+                    align-self: flex-end;
+                    font-size: 11px;
+                    opacity: 0.7;
+                    max-width: 80%;
+                    margin-top: -8px;
+                }
+
                 .send-btn {
                     background: var(--vscode-button-background);
                     color: var(--vscode-button-foreground);
@@ -485,6 +1247,28 @@ export class OllamaCodeFixerChatProvider {
                     cursor: not-allowed;
                 }
 
+                .stop-btn {
+                    display: none;
+                    background: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    border: none;
+                    padding: 12px 20px;
+                    border-radius: 4px;
+                    cursor: pointer;
+                    font-weight: 500;
+                }
+
+                .stop-btn:hover {
+                    background: var(--vscode-button-secondaryHoverBackground);
+                }
+
+                .message-stopped {
+                    font-size: 11px;
+                    font-style: italic;
+                    opacity: 0.7;
+                    margin-top: 4px;
+                }
+
                 .loading {
                     display: flex;
                     align-items: center;
@@ -521,31 +1305,37 @@ export class OllamaCodeFixerChatProvider {
         </head>
         <body>
             <div class="header">
-                <h1>${this._strings.chatTitle}</h1>
+                <div class="header-row">
+                    <h1>${this._strings.chatTitle}</h1>
+                    <button class="prompt-btn" id="newConversationBtn">${this._strings.newConversationButton}</button>
+                </div>
+                <div class="session-bar">
+                    <label for="sessionSelect">${this._strings.sessionsLabel}</label>
+                    <select class="session-select" id="sessionSelect"></select>
+                    <button class="prompt-btn" id="renameSessionBtn">${this._strings.renameSession}</button>
+                    <button class="prompt-btn" id="deleteSessionBtn">${this._strings.deleteSession}</button>
+                </div>
                 <p>${this._strings.welcomeMessage}</p>
             </div>
 
             <div class="prompts-section">
                 <div class="prompts-title">${this._strings.quickPromptsTitle}</div>
-                <div class="prompt-buttons">
-                    <button class="prompt-btn" onclick="insertPrompt('${this._strings.fixErrorsPrompt}')">${this._strings.fixErrorsPrompt}</button>
-                    <button class="prompt-btn" onclick="insertPrompt('${this._strings.optimizePrompt}')">${this._strings.optimizePrompt}</button>
-                    <button class="prompt-btn" onclick="insertPrompt('${this._strings.addCommentsPrompt}')">${this._strings.addCommentsPrompt}</button>
-                    <button class="prompt-btn" onclick="insertPrompt('${this._strings.refactorPrompt}')">${this._strings.refactorPrompt}</button>
-                    <button class="prompt-btn" onclick="insertPrompt('${this._strings.checkSecurityPrompt}')">${this._strings.checkSecurityPrompt}</button>
-                    <button class="prompt-btn" onclick="insertPrompt('${this._strings.createTestsPrompt}')">${this._strings.createTestsPrompt}</button>
-                    <button class="prompt-btn" onclick="insertPrompt('${this._strings.explainCodePrompt}')">${this._strings.explainCodePrompt}</button>
+                <div class="prompt-buttons" id="quickPrompts">
+                    ${quickPrompts}
                 </div>
+                <div class="prompts-title template-title" id="templatesTitle">${this._strings.templatesTitle}</div>
+                <div class="prompt-buttons" id="templateButtons"></div>
             </div>
 
             <div class="chat-container" id="chatContainer">
                 <div class="message assistant">
-                    <div>${this._strings.welcomeMessage}</div>
+                    <div>${escapeHtml(this._strings.welcomeMessage)}</div>
                     <div class="message-time">${new Date().toLocaleTimeString()}</div>
                 </div>
             </div>
 
             <div class="input-section">
+                <div class="attachments" id="attachments"></div>
                 <div class="input-container">
                     <textarea 
                         class="message-input" 
@@ -553,19 +1343,29 @@ export class OllamaCodeFixerChatProvider {
                         placeholder="${this._strings.inputPlaceholder}"
                         rows="1"
                     ></textarea>
-                    <button class="send-btn" id="sendBtn" onclick="sendMessage()">${this._strings.sendButton}</button>
+                    <button class="send-btn" id="sendBtn">${this._strings.sendButton}</button>
+                    <button class="stop-btn" id="stopBtn">${this._strings.stopButton}</button>
+                </div>
+                <div class="mention-bar" id="mentionBar" title="${escapeHtml(this._strings.mentionHint)}">
+                    <button class="mention-btn" data-kind="selection">@selection</button>
+                    <button class="mention-btn" data-kind="file">@file</button>
+                    <button class="mention-btn" data-kind="diagnostics">@diagnostics</button>
+                    <button class="mention-btn" data-kind="workspace">@workspace</button>
                 </div>
+                <label class="context-toggle">
+                    <input type="checkbox" id="includeContext">
+                    ${this._strings.includeEditorContext}
+                </label>
             </div>
 
-            <script>
+            <script nonce="${nonce}" src="${markdownUri}"></script>
+            <script nonce="${nonce}">
                 const vscode = acquireVsCodeApi();
-                const strings = ${JSON.stringify({
-                    copyButton: this._strings.copyButton,
-                    applyButton: this._strings.applyButton,
-                    copied: this._strings.copyButton,
-                    loadingMessage: this._strings.loadingMessage
-                })};
+                const strings = ${strings};
                 let isLoading = false;
+                let activeSessionId = (vscode.getState() || {}).sessionId;
+                // Сообщения, которые сейчас получают поток от модели
+                const streamingMessages = {};
 
                 function insertPrompt(prompt) {
                     const input = document.getElementById('messageInput');
@@ -582,42 +1382,239 @@ export class OllamaCodeFixerChatProvider {
                     input.value = '';
                     vscode.postMessage({
                         command: 'sendMessage',
-                        text: message
+                        text: message,
+                        includeContext: document.getElementById('includeContext').checked
                     });
                 }
 
-                function addMessage(message) {
+                // Фрагмент редактора, о котором спросили через быстрое действие
+                let sourceLabel;
+
+                function renderAttachments(attachments) {
+                    const container = document.getElementById('attachments');
+                    container.replaceChildren();
+                    for (const attachment of attachments) {
+                        const chip = document.createElement('span');
+                        chip.className = 'chip';
+                        chip.title = '~' + attachment.tokens + ' tokens';
+                        const label = document.createElement('span');
+                        label.className = 'chip-label';
+                        label.textContent = '@' + attachment.kind + ' ' + attachment.label;
+                        const remove = document.createElement('button');
+                        remove.className = 'chip-remove';
+                        remove.textContent = '×';
+                        remove.title = strings.removeAttachment;
+                        remove.addEventListener('click', () => {
+                            vscode.postMessage({ command: 'removeAttachment', id: attachment.id });
+                        });
+                        chip.appendChild(label);
+                        chip.appendChild(remove);
+                        container.appendChild(chip);
+                    }
+                }
+
+                // Упоминание, после которого набран пробел, сразу превращается в вложение
+                function handleMentionInput(input) {
+                    const beforeCursor = input.value.slice(0, input.selectionStart);
+                    const match = beforeCursor.match(/(^|\s)@(selection|file|diagnostics|workspace)(?::("[^"]+"|\S+))?\s$/);
+                    if (!match) return;
+
+                    const start = beforeCursor.length - match[0].length + match[1].length;
+                    input.value = input.value.slice(0, start) + input.value.slice(beforeCursor.length);
+                    input.selectionStart = input.selectionEnd = start;
+                    const arg = match[3] ? match[3].replace(/^"|"$/g, '') : undefined;
+                    vscode.postMessage({ command: 'addAttachment', kind: match[2], arg: arg });
+                }
+
+                function addContextInfo(description) {
                     const container = document.getElementById('chatContainer');
+                    const info = document.createElement('div');
+                    info.className = 'context-info';
+                    info.textContent = strings.contextIncluded + ' ' + description;
+                    container.appendChild(info);
+                    container.scrollTop = container.scrollHeight;
+                }
+
+                // Markdown строится через DOM в markdown.js; к блокам кода добавляются кнопки действий
+                function renderContent(element, content) {
+                    element.replaceChildren(window.renderMarkdown(content));
+                    for (const block of element.querySelectorAll('.code-block')) {
+                        const actions = document.createElement('div');
+                        actions.className = 'code-actions';
+                        actions.appendChild(createCodeButton(strings.copyButton, copyCode));
+                        actions.appendChild(createCodeButton(strings.insertButton, button => codeAction(button, 'insert')));
+                        actions.appendChild(createCodeButton(strings.replaceSelectionButton, button => codeAction(button, 'replace')));
+                        actions.appendChild(createCodeButton(strings.newFileButton, button => codeAction(button, 'newFile')));
+                        actions.appendChild(createCodeButton(strings.diffButton, button => codeAction(button, 'diff')));
+                        if (block.dataset.path) {
+                            const label = strings.applyToFileButton.replace('{0}', block.dataset.path);
+                            actions.appendChild(createCodeButton(label, button => codeAction(button, 'applyToFile')));
+                        } else if (sourceLabel) {
+                            const label = strings.applyToFileButton.replace('{0}', sourceLabel);
+                            actions.appendChild(createCodeButton(label, button => codeAction(button, 'applyToSource')));
+                        }
+                        block.appendChild(actions);
+                    }
+                }
+
+                function createCodeButton(label, handler) {
+                    const button = document.createElement('button');
+                    button.className = 'code-btn';
+                    button.textContent = label;
+                    button.addEventListener('click', () => handler(button));
+                    return button;
+                }
+
+                function createMessageElement(type, timestamp) {
                     const messageDiv = document.createElement('div');
-                    messageDiv.className = 'message ' + message.type;
-                    
-                    let content = message.content;
-                    
-                    // Обработка кода в сообщениях
-                    content = content.replace(/\`\`\`([\\s\\S]*?)\`\`\`/g, (match, code) => {
-                        return '<div class="code-block">' +
-                               '<div class="code-actions">' +
-                               '<button class="code-btn" onclick="copyCode(this)">' + strings.copyButton + '</button>' +
-                               '<button class="code-btn" onclick="applyCode(this)">' + strings.applyButton + '</button>' +
-                               '</div>' +
-                               '<pre>' + code.trim() + '</pre>' +
-                               '</div>';
-                    });
-                    
-                    messageDiv.innerHTML = 
-                        '<div>' + content + '</div>' +
-                        '<div class="message-time">' + message.timestamp + '</div>';
-                    
+                    messageDiv.className = 'message ' + type;
+                    const content = document.createElement('div');
+                    content.className = 'message-content';
+                    const time = document.createElement('div');
+                    time.className = 'message-time';
+                    time.textContent = timestamp;
+                    messageDiv.appendChild(content);
+                    messageDiv.appendChild(time);
+                    return messageDiv;
+                }
+
+                function addMessage(message) {
+                    const container = document.getElementById('chatContainer');
+                    const messageDiv = createMessageElement(message.type, message.timestamp);
+                    renderContent(messageDiv.querySelector('.message-content'), message.content);
                     container.appendChild(messageDiv);
                     container.scrollTop = container.scrollHeight;
                 }
 
+                function startMessage(id, timestamp) {
+                    const container = document.getElementById('chatContainer');
+                    const existingLoading = container.querySelector('.loading');
+                    if (existingLoading) {
+                        existingLoading.remove();
+                    }
+
+                    const messageDiv = createMessageElement('assistant', timestamp);
+                    container.appendChild(messageDiv);
+                    streamingMessages[id] = { element: messageDiv, text: '' };
+                    container.scrollTop = container.scrollHeight;
+                }
+
+                function appendDelta(id, delta) {
+                    const streaming = streamingMessages[id];
+                    if (!streaming) return;
+
+                    const container = document.getElementById('chatContainer');
+                    const atBottom = container.scrollHeight - container.scrollTop - container.clientHeight < 40;
+                    streaming.text += delta;
+                    renderContent(streaming.element.querySelector('.message-content'), streaming.text);
+                    if (atBottom) {
+                        container.scrollTop = container.scrollHeight;
+                    }
+                }
+
+                function finishMessage(id, stopped) {
+                    const streaming = streamingMessages[id];
+                    if (!streaming) return;
+
+                    if (stopped) {
+                        const note = document.createElement('div');
+                        note.className = 'message-stopped';
+                        note.textContent = strings.generationStopped;
+                        streaming.element.insertBefore(note, streaming.element.querySelector('.message-time'));
+                    }
+                    delete streamingMessages[id];
+                }
+
+                function newConversation() {
+                    vscode.postMessage({ command: 'newConversation' });
+                }
+
+                function clearChat() {
+                    const container = document.getElementById('chatContainer');
+                    const welcome = createMessageElement('assistant', new Date().toLocaleTimeString());
+                    welcome.querySelector('.message-content').textContent = strings.welcomeMessage;
+                    container.replaceChildren(welcome);
+                    for (const id of Object.keys(streamingMessages)) {
+                        delete streamingMessages[id];
+                    }
+                }
+
+                function switchSession(id) {
+                    vscode.postMessage({ command: 'switchSession', id: id });
+                }
+
+                function renameSession() {
+                    vscode.postMessage({ command: 'renameSession', id: activeSessionId });
+                }
+
+                function deleteSession() {
+                    vscode.postMessage({ command: 'deleteSession', id: activeSessionId });
+                }
+
+                function renderSessionList(sessions, activeId) {
+                    const select = document.getElementById('sessionSelect');
+                    select.replaceChildren();
+                    const ids = sessions.map(session => session.id);
+                    if (!ids.includes(activeId)) {
+                        const option = document.createElement('option');
+                        option.value = activeId;
+                        option.textContent = strings.newConversation;
+                        select.appendChild(option);
+                    }
+                    for (const session of sessions) {
+                        const option = document.createElement('option');
+                        option.value = session.id;
+                        option.textContent = session.title;
+                        select.appendChild(option);
+                    }
+                    select.value = activeId;
+                    activeSessionId = activeId;
+                    vscode.setState({ sessionId: activeId });
+                }
+
+                function loadSession(message) {
+                    clearChat();
+                    for (const item of message.messages) {
+                        addMessage(item);
+                    }
+                    renderSessionList(message.sessions, message.activeId);
+                }
+
+                function renderTemplates(templates) {
+                    const container = document.getElementById('templateButtons');
+                    container.replaceChildren();
+                    document.getElementById('templatesTitle').style.display = templates.length > 0 ? 'block' : 'none';
+                    for (const template of templates) {
+                        const button = document.createElement('button');
+                        button.className = 'prompt-btn';
+                        button.textContent = template.name;
+                        button.title = template.description || '';
+                        button.addEventListener('click', () => useTemplate(template.name));
+                        container.appendChild(button);
+                    }
+                }
+
+                // Текст из поля ввода подставляется в шаблон как {userInput}
+                function useTemplate(name) {
+                    if (isLoading) return;
+                    const input = document.getElementById('messageInput');
+                    vscode.postMessage({ command: 'useTemplate', name: name, input: input.value.trim() });
+                    input.value = '';
+                }
+
+                function stopGeneration() {
+                    vscode.postMessage({ command: 'stopGeneration' });
+                }
+
                 function setLoading(loading) {
                     isLoading = loading;
                     const sendBtn = document.getElementById('sendBtn');
+                    const stopBtn = document.getElementById('stopBtn');
                     const container = document.getElementById('chatContainer');
                     
                     sendBtn.disabled = loading;
+                    sendBtn.style.display = loading ? 'none' : '';
+                    stopBtn.style.display = loading ? 'inline-block' : 'none';
                     
                     // Удаляем предыдущий индикатор загрузки
                     const existingLoading = container.querySelector('.loading');
@@ -628,13 +1625,17 @@ export class OllamaCodeFixerChatProvider {
                     if (loading) {
                         const loadingDiv = document.createElement('div');
                         loadingDiv.className = 'loading';
-                        loadingDiv.innerHTML = 
-                            '<div>' + strings.loadingMessage + '</div>' +
-                            '<div class="loading-dots">' +
-                            '<div class="loading-dot"></div>' +
-                            '<div class="loading-dot"></div>' +
-                            '<div class="loading-dot"></div>' +
-                            '</div>';
+                        const text = document.createElement('div');
+                        text.textContent = strings.loadingMessage;
+                        const dots = document.createElement('div');
+                        dots.className = 'loading-dots';
+                        for (let i = 0; i < 3; i++) {
+                            const dot = document.createElement('div');
+                            dot.className = 'loading-dot';
+                            dots.appendChild(dot);
+                        }
+                        loadingDiv.appendChild(text);
+                        loadingDiv.appendChild(dots);
                         container.appendChild(loadingDiv);
                         container.scrollTop = container.scrollHeight;
                     }
@@ -649,13 +1650,33 @@ export class OllamaCodeFixerChatProvider {
                     }, 2000);
                 }
 
-                function applyCode(button) {
-                    const codeBlock = button.closest('.code-block').querySelector('pre');
+                function codeAction(button, action) {
+                    const block = button.closest('.code-block');
                     vscode.postMessage({
-                        command: 'applyCode',
-                        code: codeBlock.textContent
+                        command: 'codeAction',
+                        action: action,
+                        code: block.querySelector('pre').textContent,
+                        language: block.dataset.language || '',
+                        path: block.dataset.path
+                    });
+                }
+
+                // Обработчики назначаются здесь: политика CSP запрещает атрибуты onclick
+                document.getElementById('newConversationBtn').addEventListener('click', newConversation);
+                document.getElementById('sessionSelect').addEventListener('change', event => switchSession(event.target.value));
+                document.getElementById('renameSessionBtn').addEventListener('click', renameSession);
+                document.getElementById('deleteSessionBtn').addEventListener('click', deleteSession);
+                document.getElementById('sendBtn').addEventListener('click', sendMessage);
+                document.getElementById('stopBtn').addEventListener('click', stopGeneration);
+                for (const button of document.querySelectorAll('#mentionBar .mention-btn')) {
+                    button.addEventListener('click', () => {
+                        vscode.postMessage({ command: 'addAttachment', kind: button.dataset.kind });
                     });
                 }
+                document.getElementById('messageInput').addEventListener('input', event => handleMentionInput(event.target));
+                for (const button of document.querySelectorAll('#quickPrompts .prompt-btn')) {
+                    button.addEventListener('click', () => insertPrompt(button.dataset.prompt));
+                }
 
                 // Обработка Enter для отправки сообщения
                 document.getElementById('messageInput').addEventListener('keydown', function(e) {
@@ -675,15 +1696,47 @@ export class OllamaCodeFixerChatProvider {
                         case 'setLoading':
                             setLoading(message.loading);
                             break;
+                        case 'startMessage':
+                            startMessage(message.id, message.timestamp);
+                            break;
+                        case 'appendDelta':
+                            appendDelta(message.id, message.delta);
+                            break;
+                        case 'finishMessage':
+                            finishMessage(message.id, message.stopped);
+                            break;
+                        case 'loadSession':
+                            loadSession(message);
+                            break;
+                        case 'sessionList':
+                            renderSessionList(message.sessions, message.activeId);
+                            break;
                         case 'insertPrompt':
                             document.getElementById('messageInput').value = message.prompt;
                             break;
+                        case 'templates':
+                            renderTemplates(message.templates);
+                            break;
+                        case 'attachments':
+                            renderAttachments(message.attachments);
+                            break;
+                        case 'source':
+                            sourceLabel = message.label;
+                            break;
+                        case 'contextInfo':
+                            addContextInfo(message.description);
+                            break;
                     }
                 });
+
+                // Сообщаем расширению, что webview готов принять историю сессии
+                vscode.postMessage({ command: 'webviewReady' });
             </script>
         </body>
         </html>`;
     }    public dispose() {
+        // Закрытие панели прерывает незавершённый запрос к Ollama
+        this.stopGeneration();
         while (this._disposables.length) {
             const disposable = this._disposables.pop();
             if (disposable) {
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { ChatMessage } from './chatHistory';
+
+export interface ChatSession {
+    id: string;
+    title: string;
+    // Название задано пользователем и больше не берётся из первого сообщения
+    customTitle: boolean;
+    createdAt: number;
+    updatedAt: number;
+    messages: ChatMessage[];
+}
+
+export interface ChatSessionSummary {
+    id: string;
+    title: string;
+    updatedAt: number;
+}
+
+const SESSIONS_KEY = 'ollamaCodeFixer.chatSessions';
+const ACTIVE_SESSION_KEY = 'ollamaCodeFixer.activeChatSession';
+const TITLE_MAX_LENGTH = 40;
+
+// Хранит сессии чата в workspaceState, чтобы они переживали закрытие панели и перезагрузку окна
+export class ChatSessionStore {
+    constructor(private readonly storage: vscode.Memento) {}
+
+    public list(): ChatSessionSummary[] {
+        return this.getAll()
+            .map(({ id, title, updatedAt }) => ({ id, title, updatedAt }))
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    public get(id: string): ChatSession | undefined {
+        return this.getAll().find(session => session.id === id);
+    }
+
+    public create(): ChatSession {
+        const now = Date.now();
+        return {
+            id: `session-${now}-${Math.random().toString(36).slice(2, 8)}`,
+            title: '',
+            customTitle: false,
+            createdAt: now,
+            updatedAt: now,
+            messages: []
+        };
+    }
+
+    public async save(session: ChatSession): Promise<void> {
+        if (!session.customTitle) {
+            session.title = this.deriveTitle(session);
+        }
+        session.updatedAt = Date.now();
+
+        const sessions = this.getAll().filter(s => s.id !== session.id);
+        sessions.push(session);
+        await this.storage.update(SESSIONS_KEY, sessions);
+    }
+
+    public async delete(id: string): Promise<void> {
+        const sessions = this.getAll().filter(s => s.id !== id);
+        await this.storage.update(SESSIONS_KEY, sessions);
+        if (this.activeSessionId === id) {
+            await this.setActiveSessionId(undefined);
+        }
+    }
+
+    public get activeSessionId(): string | undefined {
+        return this.storage.get<string>(ACTIVE_SESSION_KEY);
+    }
+
+    public async setActiveSessionId(id: string | undefined): Promise<void> {
+        await this.storage.update(ACTIVE_SESSION_KEY, id);
+    }
+
+    private getAll(): ChatSession[] {
+        return this.storage.get<ChatSession[]>(SESSIONS_KEY, []);
+    }
+
+    private deriveTitle(session: ChatSession): string {
+        const firstUserMessage = session.messages.find(m => m.role === 'user');
+        if (!firstUserMessage) {
+            return new Date(session.createdAt).toLocaleString();
+        }
+        const title = firstUserMessage.content.replace(/\s+/g, ' ').trim();
+        return title.length > TITLE_MAX_LENGTH ? `${title.slice(0, TITLE_MAX_LENGTH)}…` : title;
+    }
+}
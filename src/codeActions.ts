@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { findEnclosingSymbol, getCorrectionFromOllama, getSurroundingCode } from './fixer';
+import { OllamaClient } from './ollama/client';
+import { describeCodeContext, formatCodeContext, gatherContext } from './contextBuilder';
+
+const FIX_DIAGNOSTICS_COMMAND = 'ollama-code-fixer.fixDiagnostics';
+
+// Если функция не найдена, модели отправляются строки вокруг диагностики
+const CONTEXT_LINES = 5;
+
+/**
+ * Предлагает "Fix with Ollama" в лампочке для ошибок и предупреждений.
+ * Модели отправляется окружающая функция вместе с текстом и кодами диагностик.
+ */
+export class OllamaFixCodeActionProvider implements vscode.CodeActionProvider, vscode.Disposable {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly client: OllamaClient) {
+        this._disposables.push(
+            vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, this, {
+                providedCodeActionKinds: OllamaFixCodeActionProvider.providedCodeActionKinds
+            }),
+            vscode.commands.registerCommand(
+                FIX_DIAGNOSTICS_COMMAND,
+                (uri: vscode.Uri, diagnostics: vscode.Diagnostic[]) => this.fixDiagnostics(uri, diagnostics)
+            )
+        );
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const diagnostics = context.diagnostics.filter(diagnostic =>
+            diagnostic.severity === vscode.DiagnosticSeverity.Error ||
+            diagnostic.severity === vscode.DiagnosticSeverity.Warning
+        );
+        if (diagnostics.length === 0) {
+            return [];
+        }
+
+        const action = new vscode.CodeAction('Fix with Ollama', vscode.CodeActionKind.QuickFix);
+        action.diagnostics = diagnostics;
+        action.command = {
+            command: FIX_DIAGNOSTICS_COMMAND,
+            title: 'Fix with Ollama',
+            arguments: [document.uri, diagnostics]
+        };
+        return [action];
+    }
+
+    private async fixDiagnostics(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const target = await this.getTargetRange(document, diagnostics);
+        const originalText = document.getText(target);
+        const originalVersion = document.version;
+
+        // В промпт попадают все диагностики, пересекающиеся с исправляемым фрагментом
+        const relatedDiagnostics = vscode.languages.getDiagnostics(uri).filter(diagnostic =>
+            diagnostic.severity <= vscode.DiagnosticSeverity.Warning && target.intersection(diagnostic.range)
+        );
+
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Ollama Code Fixer',
+                cancellable: true
+            },
+            async (progress, token) => {
+                const abortController = new AbortController();
+                token.onCancellationRequested(() => abortController.abort());
+
+                progress.report({ message: 'Gathering context...' });
+                const codeContext = await gatherContext(document, target);
+                if (codeContext) {
+                    vscode.window.setStatusBarMessage(`Ollama context: ${describeCodeContext(codeContext)}`, 10000);
+                }
+
+                progress.report({ message: 'Sending diagnostics and code to local Ollama AI...' });
+
+                const correctedCode = await getCorrectionFromOllama(
+                    this.client,
+                    {
+                        code: originalText,
+                        languageId: document.languageId,
+                        diagnostics: relatedDiagnostics.length > 0 ? relatedDiagnostics : diagnostics,
+                        startLine: target.start.line,
+                        fileName: vscode.workspace.asRelativePath(uri),
+                        surroundingCode: getSurroundingCode(document, target),
+                        context: codeContext ? formatCodeContext(codeContext) : undefined
+                    },
+                    abortController.signal
+                );
+
+                if (token.isCancellationRequested || correctedCode === null) {
+                    return;
+                }
+                if (correctedCode === originalText) {
+                    vscode.window.showInformationMessage('Ollama AI suggests no changes for these problems.');
+                    return;
+                }
+
+                if (document.version !== originalVersion && document.getText(target) !== originalText) {
+                    vscode.window.showWarningMessage('The code changed while Ollama was working, so the fix was not applied.');
+                    return;
+                }
+
+                const edit = new vscode.WorkspaceEdit();
+                edit.replace(uri, target, correctedCode);
+                const success = await vscode.workspace.applyEdit(edit);
+                if (success) {
+                    console.log('[OllamaCodeFixer] Diagnostic fix applied.');
+                } else {
+                    vscode.window.showErrorMessage('Failed to apply code changes.');
+                }
+            }
+        );
+    }
+
+    // Исправляется вся окружающая функция, а без неё — строки вокруг диагностик
+    private async getTargetRange(document: vscode.TextDocument, diagnostics: vscode.Diagnostic[]): Promise<vscode.Range> {
+        const combined = diagnostics
+            .map(diagnostic => diagnostic.range)
+            .reduce((acc, range) => acc.union(range));
+
+        const symbol = await findEnclosingSymbol(document, combined);
+        if (symbol) {
+            return symbol.range;
+        }
+
+        const startLine = Math.max(0, combined.start.line - CONTEXT_LINES);
+        const endLine = Math.min(document.lineCount - 1, combined.end.line + CONTEXT_LINES);
+        return new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
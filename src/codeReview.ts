@@ -0,0 +1,346 @@
+import * as vscode from 'vscode';
+import { OllamaClient } from './ollama/client';
+import { resolveModel } from './modelRouting';
+import { isCancellationError } from './utils/retry';
+import { truncateToTokens } from './utils/tokens';
+import { FileDiff, GENERATED_FILES, GitRepository, getGitAPI, pickRepository, splitDiffByFile } from './utils/git';
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export interface ReviewFinding {
+    file: string;
+    line: number;
+    endLine?: number;
+    severity: FindingSeverity;
+    message: string;
+    // Код, которым нужно заменить строки line..endLine
+    suggestion?: string;
+}
+
+// Находка, привязанная к треду комментариев, и текст строк на момент проверки.
+// uri — файл рабочего дерева, в который применяется предложение; тред может стоять на версии из индекса
+interface ThreadFinding {
+    finding: ReviewFinding;
+    uri: vscode.Uri;
+    originalText: string;
+}
+
+const SEVERITY_ICONS: Record<FindingSeverity, string> = {
+    error: '$(error)',
+    warning: '$(warning)',
+    info: '$(info)'
+};
+
+// Запас токенов под инструкции промпта и под ответ с находками
+const PROMPT_OVERHEAD_TOKENS = 1000;
+
+const REVIEW_PROMPT = `You are a senior engineer doing a code review. Review the diff of one file below.
+Look for bugs, security issues (injection, unsafe input handling, secrets, insecure defaults), error handling gaps, race conditions and clear maintainability problems. Ignore style nitpicks and anything a formatter would fix.
+Lines of the new version are prefixed with their line number. Only report issues in added ("+") lines.
+
+Respond with JSON only, in this shape:
+{"findings": [{"line": 12, "endLine": 14, "severity": "error" | "warning" | "info", "message": "what is wrong and why", "suggestion": "optional replacement code for lines line..endLine"}]}
+Return {"findings": []} if there is nothing worth reporting.`;
+
+/**
+ * Нумерует строки новой версии файла в hunks, чтобы модель могла ссылаться на них.
+ * Удалённые строки остаются без номера.
+ */
+export function annotateDiff(diff: string): string {
+    const output: string[] = [];
+    let line = 0;
+    let inHunk = false;
+    for (const text of diff.split('\n')) {
+        const hunk = text.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+        if (hunk) {
+            line = parseInt(hunk[1], 10);
+            inHunk = true;
+            output.push(text);
+        } else if (!inHunk) {
+            continue;
+        } else if (text.startsWith('-')) {
+            output.push(`     ${text}`);
+        } else if (text.startsWith('+') || text.startsWith(' ')) {
+            output.push(`${String(line).padStart(4)} ${text}`);
+            line++;
+        }
+    }
+    return output.join('\n');
+}
+
+function normalizeSeverity(value: unknown): FindingSeverity {
+    const severity = String(value || '').toLowerCase();
+    if (severity === 'error' || severity === 'critical' || severity === 'high') {
+        return 'error';
+    }
+    if (severity === 'info' || severity === 'low' || severity === 'note') {
+        return 'info';
+    }
+    return 'warning';
+}
+
+// Модель не всегда соблюдает format: 'json', поэтому ищем первый JSON-объект в ответе
+export function parseFindings(response: string, file: string): ReviewFinding[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(response);
+    } catch {
+        const match = response.match(/\{[\s\S]*\}/);
+        if (!match) {
+            return [];
+        }
+        try {
+            data = JSON.parse(match[0]);
+        } catch {
+            return [];
+        }
+    }
+
+    const items = Array.isArray(data) ? data : (data as { findings?: unknown })?.findings;
+    if (!Array.isArray(items)) {
+        return [];
+    }
+    return items
+        .filter(item => item && typeof item.message === 'string' && Number.isInteger(Number(item.line)) && Number(item.line) > 0)
+        .map(item => {
+            const line = Number(item.line);
+            const endLine = Number(item.endLine);
+            return {
+                file,
+                line,
+                endLine: Number.isInteger(endLine) && endLine >= line ? endLine : undefined,
+                severity: normalizeSeverity(item.severity),
+                message: item.message.trim(),
+                suggestion: typeof item.suggestion === 'string' && item.suggestion.trim() ? item.suggestion.replace(/\s+$/, '') : undefined
+            };
+        });
+}
+
+/**
+ * Проверка изменений рабочего дерева или индекса локальной моделью. Находки показываются
+ * тредами комментариев в редакторе с действиями «Применить предложение» и «Скрыть».
+ */
+export class CodeReviewer implements vscode.Disposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+    private readonly _controller: vscode.CommentController;
+    private readonly _threads = new Map<vscode.CommentThread, ThreadFinding>();
+
+    constructor(private readonly client: OllamaClient) {
+        this._controller = vscode.comments.createCommentController('ollama-code-review', 'Ollama Review');
+        this._disposables.push(
+            this._controller,
+            vscode.commands.registerCommand(
+                'ollama-code-fixer.reviewChanges',
+                (sourceControl?: vscode.SourceControl) => this.review(sourceControl?.rootUri)
+            ),
+            vscode.commands.registerCommand('ollama-code-fixer.applyReviewSuggestion', (thread: vscode.CommentThread) => this.applySuggestion(thread)),
+            vscode.commands.registerCommand('ollama-code-fixer.dismissReviewFinding', (thread: vscode.CommentThread) => this.dismiss(thread)),
+            vscode.commands.registerCommand('ollama-code-fixer.clearReview', () => this.clear())
+        );
+    }
+
+    private async review(rootUri?: vscode.Uri): Promise<void> {
+        const git = await getGitAPI();
+        if (!git) {
+            vscode.window.showErrorMessage('The built-in Git extension is disabled or unavailable.');
+            return;
+        }
+        const repository = await pickRepository(git, rootUri);
+        if (!repository) {
+            vscode.window.showInformationMessage('No Git repository found.');
+            return;
+        }
+
+        const scope = await vscode.window.showQuickPick(
+            [
+                { label: 'Working tree changes', description: 'Changes not staged for commit', cached: false },
+                { label: 'Staged changes', description: 'Changes in the index', cached: true }
+            ],
+            { placeHolder: 'Which changes should Ollama review?' }
+        );
+        if (!scope) {
+            return;
+        }
+
+        const files = splitDiffByFile(await repository.diff(scope.cached))
+            .filter(file => !GENERATED_FILES.test(file.path) && /^@@ /m.test(file.diff) && !/^\+\+\+ \/dev\/null/m.test(file.diff));
+        if (files.length === 0) {
+            vscode.window.showInformationMessage(`There are no ${scope.cached ? 'staged' : 'unstaged'} changes to review.`);
+            return;
+        }
+
+        this.clear();
+        const findings: ReviewFinding[] = [];
+        const failed: string[] = [];
+
+        // Отмена возвращает false: итог по части файлов выглядел бы как завершённая проверка
+        const completed = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Ollama: Reviewing changes',
+                cancellable: true
+            },
+            async (progress, token) => {
+                const abortController = new AbortController();
+                token.onCancellationRequested(() => abortController.abort());
+
+                for (const [index, file] of files.entries()) {
+                    progress.report({
+                        increment: index === 0 ? 0 : 100 / files.length,
+                        message: `${index + 1}/${files.length}: ${file.path}`
+                    });
+                    try {
+                        const fileFindings = await this.reviewFile(repository, file, abortController.signal);
+                        findings.push(...fileFindings);
+                        // Номера строк staged-diff относятся к версии в индексе, а не к рабочему дереву
+                        await this.showFindings(repository, fileFindings, scope.cached ? uri => git.toGitUri(uri, '') : undefined);
+                    } catch (error) {
+                        if (isCancellationError(error) || abortController.signal.aborted) {
+                            return false;
+                        }
+                        console.error(`[OllamaCodeFixer] Review failed for ${file.path}:`, error);
+                        failed.push(file.path);
+                    }
+                }
+                return !abortController.signal.aborted;
+            }
+        );
+
+        if (!completed) {
+            const kept = findings.length > 0 ? ` ${findings.length} comment(s) on the files reviewed so far are kept.` : '';
+            vscode.window.showInformationMessage(`Ollama review cancelled.${kept}`);
+            return;
+        }
+
+        const summary = findings.length === 0
+            ? `Ollama found no issues in ${files.length} file(s).`
+            : `Ollama left ${findings.length} comment(s) on ${new Set(findings.map(finding => finding.file)).size} of ${files.length} file(s).`;
+        if (failed.length > 0) {
+            vscode.window.showWarningMessage(`${summary} Could not review: ${failed.join(', ')}.`);
+        } else {
+            vscode.window.showInformationMessage(summary);
+        }
+    }
+
+    private async reviewFile(repository: GitRepository, file: FileDiff, signal: AbortSignal): Promise<ReviewFinding[]> {
+        const contextLength = vscode.workspace.getConfiguration('ollamaCodeFixer').get<number>('contextLength', 4096);
+        const budget = Math.max(512, contextLength - PROMPT_OVERHEAD_TOKENS);
+        let languageId: string | undefined;
+        try {
+            languageId = (await vscode.workspace.openTextDocument(vscode.Uri.joinPath(repository.rootUri, file.path))).languageId;
+        } catch {
+            // Язык нужен только для правил modelRoutes
+        }
+        const { model, options } = resolveModel('review', languageId);
+
+        const response = await this.client.generate(
+            {
+                model,
+                prompt: `${REVIEW_PROMPT}\n\nFile: ${file.path}\n\`\`\`diff\n${truncateToTokens(annotateDiff(file.diff), budget)}\n\`\`\``,
+                format: 'json',
+                options
+            },
+            signal
+        );
+        return parseFindings(response.response, file.path);
+    }
+
+    private async showFindings(
+        repository: GitRepository,
+        findings: ReviewFinding[],
+        toReviewedUri?: (uri: vscode.Uri) => vscode.Uri
+    ): Promise<void> {
+        for (const finding of findings) {
+            const uri = vscode.Uri.joinPath(repository.rootUri, finding.file);
+            const reviewedUri = toReviewedUri ? toReviewedUri(uri) : uri;
+            let document: vscode.TextDocument;
+            try {
+                document = await vscode.workspace.openTextDocument(reviewedUri);
+            } catch {
+                continue;
+            }
+            if (finding.line > document.lineCount) {
+                continue;
+            }
+
+            const range = new vscode.Range(
+                finding.line - 1, 0,
+                Math.min(finding.endLine ?? finding.line, document.lineCount) - 1, Number.MAX_SAFE_INTEGER
+            );
+            const validRange = document.validateRange(range);
+
+            const body = new vscode.MarkdownString(`${SEVERITY_ICONS[finding.severity]} **${finding.severity}**: ${finding.message}`, true);
+            if (finding.suggestion) {
+                body.appendMarkdown('\n\nSuggested change:\n');
+                body.appendCodeblock(finding.suggestion, document.languageId);
+            }
+
+            const thread = this._controller.createCommentThread(reviewedUri, validRange, [{
+                body,
+                mode: vscode.CommentMode.Preview,
+                author: { name: 'Ollama' }
+            }]);
+            thread.label = `Ollama ${finding.severity}`;
+            thread.canReply = false;
+            thread.contextValue = finding.suggestion ? 'ollamaFinding.suggestion' : 'ollamaFinding';
+            thread.collapsibleState = finding.severity === 'info'
+                ? vscode.CommentThreadCollapsibleState.Collapsed
+                : vscode.CommentThreadCollapsibleState.Expanded;
+            this._threads.set(thread, { finding, uri, originalText: document.getText(validRange) });
+        }
+    }
+
+    /**
+     * Предложение заменяет строки находки в рабочем дереве. Если они сдвинулись (правки после
+     * проверки или отличия рабочего дерева от индекса), строки ищутся по тексту; если их нет
+     * или они встречаются несколько раз, предложение не применяется.
+     */
+    private async applySuggestion(thread: vscode.CommentThread): Promise<void> {
+        const entry = this._threads.get(thread);
+        if (!entry?.finding.suggestion || !thread.range) {
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(entry.uri);
+        let range = document.validateRange(thread.range);
+        if (document.getText(range) !== entry.originalText) {
+            const text = document.getText();
+            const offset = text.indexOf(entry.originalText);
+            if (!entry.originalText.trim() || offset < 0 || text.indexOf(entry.originalText, offset + 1) >= 0) {
+                vscode.window.showWarningMessage('The code has changed since the review. Apply the suggestion manually.');
+                return;
+            }
+            range = new vscode.Range(document.positionAt(offset), document.positionAt(offset + entry.originalText.length));
+        }
+
+        // Отступ первой строки сохраняем, если модель вернула код без него
+        const indentation = entry.originalText.match(/^[ \t]*/)?.[0] || '';
+        const suggestion = entry.finding.suggestion;
+        const text = indentation && !/^[ \t]/.test(suggestion) ? indentation + suggestion : suggestion;
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(entry.uri, range, text);
+        if (await vscode.workspace.applyEdit(edit)) {
+            this.dismiss(thread);
+        }
+    }
+
+    private dismiss(thread: vscode.CommentThread): void {
+        this._threads.delete(thread);
+        thread.dispose();
+    }
+
+    private clear(): void {
+        for (const thread of this._threads.keys()) {
+            thread.dispose();
+        }
+        this._threads.clear();
+    }
+
+    dispose() {
+        this.clear();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
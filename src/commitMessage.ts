@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import { OllamaClient } from './ollama/client';
+import { resolveModel } from './modelRouting';
+import { isCancellationError } from './utils/retry';
+import { estimateTokens, truncateToTokens } from './utils/tokens';
+import { GENERATED_FILES, getGitAPI, pickRepository, splitDiffByFile } from './utils/git';
+
+type CommitConvention = 'conventional' | 'gitmoji' | 'plain';
+
+const CONVENTION_RULES: Record<CommitConvention, string> = {
+    conventional: 'Use the Conventional Commits format: "<type>(<optional scope>): <description>", where type is one of feat, fix, docs, style, refactor, perf, test, build, ci, chore or revert. Add "!" after the type for breaking changes.',
+    gitmoji: 'Start the subject line with the single gitmoji that best describes the change (for example ✨ for a feature, 🐛 for a fix, ♻️ for a refactor, 📝 for docs), followed by a space and the description.',
+    plain: 'Write the subject line as a short imperative sentence without a type prefix, for example "Add retry to the HTTP client".'
+};
+
+// Запас токенов под инструкции промпта и под сам ответ модели
+const PROMPT_OVERHEAD_TOKENS = 600;
+
+function cleanMessage(response: string): string {
+    let message = response.trim();
+    const fenced = message.match(/^```[^\n]*\n([\s\S]*?)```$/);
+    if (fenced) {
+        message = fenced[1].trim();
+    }
+    return message.replace(/^["'`]+|["'`]+$/g, '').trim();
+}
+
+/**
+ * Сообщение коммита по индексированным изменениям из встроенного расширения Git.
+ * Если diff не помещается в контекст модели, сначала пересказывается каждый файл отдельно.
+ */
+export class CommitMessageGenerator implements vscode.Disposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly client: OllamaClient) {
+        this._disposables.push(
+            vscode.commands.registerCommand(
+                'ollama-code-fixer.generateCommitMessage',
+                (sourceControl?: vscode.SourceControl) => this.generate(sourceControl?.rootUri)
+            )
+        );
+    }
+
+    private async generate(rootUri?: vscode.Uri): Promise<void> {
+        const git = await getGitAPI();
+        if (!git) {
+            vscode.window.showErrorMessage('The built-in Git extension is disabled or unavailable.');
+            return;
+        }
+        const repository = await pickRepository(git, rootUri);
+        if (!repository) {
+            vscode.window.showInformationMessage('No Git repository found.');
+            return;
+        }
+
+        const diff = await repository.diff(true);
+        if (!diff.trim()) {
+            vscode.window.showInformationMessage('There are no staged changes. Stage the changes to describe first.');
+            return;
+        }
+
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.SourceControl,
+                title: 'Ollama: Generating commit message',
+                cancellable: true
+            },
+            async (progress, token) => {
+                const abortController = new AbortController();
+                token.onCancellationRequested(() => abortController.abort());
+
+                try {
+                    const changes = await this.describeChanges(diff, abortController.signal, message => progress.report({ message }));
+                    const { model, options } = resolveModel('commitMessage');
+                    const response = await this.client.generate(
+                        { model, prompt: this.buildPrompt(changes), options },
+                        abortController.signal
+                    );
+                    const message = cleanMessage(response.response);
+                    if (message) {
+                        repository.inputBox.value = message;
+                    }
+                } catch (error) {
+                    if (isCancellationError(error) || abortController.signal.aborted) {
+                        console.log('[OllamaCodeFixer] Commit message generation cancelled.');
+                        return;
+                    }
+                    console.error('[OllamaCodeFixer] Commit message generation failed:', error);
+                    const message = error instanceof Error ? error.message : String(error);
+                    vscode.window.showErrorMessage(`Failed to generate commit message: ${message}`);
+                }
+            }
+        );
+    }
+
+    /**
+     * Diff целиком, если он помещается в contextLength, иначе — краткий пересказ изменений
+     * каждого файла, полученный отдельными запросами.
+     */
+    private async describeChanges(diff: string, signal: AbortSignal, report: (message: string) => void): Promise<string> {
+        const contextLength = vscode.workspace.getConfiguration('ollamaCodeFixer').get<number>('contextLength', 4096);
+        const budget = Math.max(512, contextLength - PROMPT_OVERHEAD_TOKENS);
+        if (estimateTokens(diff) <= budget) {
+            return `Staged diff:\n\`\`\`diff\n${diff}\n\`\`\``;
+        }
+
+        const files = splitDiffByFile(diff);
+        const { model, options } = resolveModel('commitMessage');
+        // Пересказ одного файла: одна-две строки, чтобы все они вместе поместились в итоговый промпт
+        const summaryOptions = { ...options, num_predict: 80 };
+        const summaries: string[] = [];
+
+        for (const [index, file] of files.entries()) {
+            report(`Summarizing ${index + 1}/${files.length}: ${file.path}`);
+            if (GENERATED_FILES.test(file.path)) {
+                summaries.push(`- ${file.path}: regenerated lock file`);
+                continue;
+            }
+            const response = await this.client.generate(
+                {
+                    model,
+                    prompt: 'Summarize the change in this diff in one or two short sentences for a commit message. Mention what changed and why if it is evident. Return only the summary.\n\n'
+                        + `\`\`\`diff\n${truncateToTokens(file.diff, budget)}\n\`\`\``,
+                    options: summaryOptions
+                },
+                signal
+            );
+            summaries.push(`- ${file.path}: ${response.response.trim().replace(/\s*\n\s*/g, ' ')}`);
+        }
+
+        report('Writing commit message...');
+        return truncateToTokens(`Summary of the staged changes per file:\n${summaries.join('\n')}`, budget);
+    }
+
+    private buildPrompt(changes: string): string {
+        const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+        const convention = config.get<CommitConvention>('commitMessageConvention', 'conventional');
+        const maxSubjectLength = config.get<number>('commitMessageMaxSubjectLength', 72);
+        const instructions = config.get<string>('commitMessageInstructions', '').trim();
+
+        return [
+            'Write a git commit message for the staged changes below.',
+            CONVENTION_RULES[convention] || CONVENTION_RULES.conventional,
+            `Keep the subject line at most ${maxSubjectLength} characters, in the imperative mood, without a trailing period.`,
+            'If the change needs more explanation, add a blank line and a short body wrapped at 72 columns that explains what and why.',
+            ...(instructions ? [instructions] : []),
+            'Return only the commit message, without quotes, markdown or explanations.',
+            '',
+            changes
+        ].join('\n');
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
@@ -0,0 +1,283 @@
+import * as vscode from 'vscode';
+import { getDocumentSymbols } from './fixer';
+import { JobQueue } from './utils/jobQueue';
+import { estimateTokens } from './utils/tokens';
+
+export type ContextItemKind = 'imports' | 'enclosingSymbol' | 'definition';
+
+export interface ContextItem {
+    kind: ContextItemKind;
+    label: string;
+    uri: vscode.Uri;
+    text: string;
+    tokens: number;
+}
+
+export interface CodeContext {
+    items: ContextItem[];
+    // Пропущенные элементы, которые не поместились в бюджет
+    skipped: string[];
+    tokens: number;
+}
+
+// Запас токенов под инструкции промпта
+const PROMPT_OVERHEAD_TOKENS = 300;
+// Сколько идентификаторов из фрагмента проверять через провайдер определений
+const MAX_IDENTIFIERS = 30;
+// Сколько запросов к провайдерам определений и символов идёт одновременно
+const DEFINITION_CONCURRENCY = 4;
+// Определения из зависимостей и файлов объявлений модели не помогают, а бюджет занимают
+const LIBRARY_PATH = /\/(node_modules|site-packages|dist-packages|vendor)\/|\.d\.ts$/;
+// Строк вокруг определения, если для него не нашёлся символ
+const DEFINITION_FALLBACK_LINES = 3;
+
+const IMPORT_LINE = /^\s*(import\b|from\s+\S+\s+import\b|using\s+[\w.]+\s*;|#include\b|require\b|use\s+[\w:\\]+|package\s+[\w.]+)|\brequire\(/;
+
+const KEYWORDS = new Set([
+    'if', 'else', 'for', 'while', 'do', 'return', 'function', 'const', 'let', 'var', 'class', 'new',
+    'this', 'super', 'true', 'false', 'null', 'undefined', 'void', 'typeof', 'instanceof', 'in', 'of',
+    'import', 'export', 'from', 'default', 'async', 'await', 'try', 'catch', 'finally', 'throw', 'switch',
+    'case', 'break', 'continue', 'public', 'private', 'protected', 'static', 'readonly', 'def', 'self',
+    'None', 'True', 'False', 'and', 'or', 'not', 'is', 'lambda', 'pass', 'with', 'as', 'elif', 'string',
+    'number', 'boolean', 'any', 'int', 'float', 'double', 'char', 'bool', 'struct', 'enum', 'interface',
+    'type', 'extends', 'implements', 'package', 'func', 'go', 'defer', 'fn', 'mut', 'impl', 'pub', 'use'
+]);
+
+export function isContextEnabled(): boolean {
+    return vscode.workspace.getConfiguration('ollamaCodeFixer').get<boolean>('includeContext', true);
+}
+
+/**
+ * Бюджет на контекст: из contextLength вычитаются место под ответ (maxTokens),
+ * сам фрагмент кода и инструкции промпта.
+ */
+export function getContextBudget(codeTokens: number): number {
+    const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+    const contextLength = config.get<number>('contextLength', 4096);
+    const maxTokens = config.get<number>('maxTokens', 2048);
+    return Math.max(0, contextLength - maxTokens - codeTokens - PROMPT_OVERHEAD_TOKENS);
+}
+
+/**
+ * Собирает контекст для фрагмента: импорты файла, охватывающий символ и определения
+ * идентификаторов, на которые ссылается фрагмент. Элементы добавляются в порядке
+ * приоритета, пока помещаются в бюджет.
+ */
+export async function buildCodeContext(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    budget: number
+): Promise<CodeContext> {
+    const result: CodeContext = { items: [], skipped: [], tokens: 0 };
+    const add = (item: Omit<ContextItem, 'tokens'>) => {
+        const tokens = estimateTokens(item.text);
+        if (result.tokens + tokens > budget) {
+            result.skipped.push(item.label);
+            return;
+        }
+        result.items.push({ ...item, tokens });
+        result.tokens += tokens;
+    };
+
+    const imports = collectImports(document, range);
+    if (imports) {
+        add({ kind: 'imports', label: 'imports', uri: document.uri, text: imports });
+    }
+
+    const symbols = await getDocumentSymbols(document);
+    const enclosing = findContainingSymbol(symbols, range);
+    if (enclosing && !enclosing.range.isEqual(range)) {
+        add({
+            kind: 'enclosingSymbol',
+            label: `enclosing ${vscode.SymbolKind[enclosing.kind].toLowerCase()} ${enclosing.name}`,
+            uri: document.uri,
+            text: document.getText(enclosing.range)
+        });
+    }
+
+    for (const definition of await collectDefinitions(document, range, enclosing?.range, budget - result.tokens)) {
+        add(definition);
+    }
+
+    return result;
+}
+
+/**
+ * Контекст для фрагмента с учётом настройки includeContext; extraTokens — то, что ещё
+ * займёт место в промпте помимо самого фрагмента (например, текст вопроса в чате).
+ */
+export async function gatherContext(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    extraTokens = 0
+): Promise<CodeContext | undefined> {
+    if (!isContextEnabled()) {
+        return undefined;
+    }
+    const budget = getContextBudget(estimateTokens(document.getText(range)) + extraTokens);
+    try {
+        const context = await buildCodeContext(document, range, budget);
+        console.log(`[OllamaCodeFixer] Context included: ${describeCodeContext(context)}`);
+        return context;
+    } catch (error) {
+        console.error('[OllamaCodeFixer] Failed to gather context:', error);
+        return undefined;
+    }
+}
+
+// Текст контекста для промпта: каждый элемент в отдельном блоке с подписью
+export function formatCodeContext(context: CodeContext): string {
+    return context.items.map(item =>
+        `// ${item.label} (${vscode.workspace.asRelativePath(item.uri)})\n${item.text}`
+    ).join('\n\n');
+}
+
+// Краткое описание для пользователя: что вошло в контекст и что не поместилось
+export function describeCodeContext(context: CodeContext): string {
+    if (context.items.length === 0 && context.skipped.length === 0) {
+        return 'no extra context';
+    }
+    let description = context.items.map(item => item.label).join(', ') || 'nothing';
+    description += ` (~${context.tokens} tokens)`;
+    if (context.skipped.length > 0) {
+        description += `; skipped to fit the budget: ${context.skipped.join(', ')}`;
+    }
+    return description;
+}
+
+function collectImports(document: vscode.TextDocument, range: vscode.Range): string {
+    const lines: string[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+        if (range.contains(new vscode.Position(line, 0))) {
+            continue;
+        }
+        const text = document.lineAt(line).text;
+        if (IMPORT_LINE.test(text)) {
+            lines.push(text);
+        }
+    }
+    return lines.join('\n');
+}
+
+function findContainingSymbol(
+    symbols: vscode.DocumentSymbol[],
+    range: vscode.Range
+): vscode.DocumentSymbol | undefined {
+    let found: vscode.DocumentSymbol | undefined;
+    let candidates = symbols;
+    while (candidates.length > 0) {
+        const container = candidates.find(symbol => symbol.range.contains(range));
+        if (!container) {
+            break;
+        }
+        found = container;
+        candidates = container.children;
+    }
+    return found;
+}
+
+/**
+ * Определения идентификаторов фрагмента в порядке их появления. Запросы к провайдерам идут
+ * параллельно с ограничением и прекращаются, когда найденное уже занимает весь бюджет.
+ */
+async function collectDefinitions(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    enclosingRange: vscode.Range | undefined,
+    budget: number
+): Promise<Omit<ContextItem, 'tokens'>[]> {
+    if (budget <= 0) {
+        return [];
+    }
+    const text = document.getText(range);
+    const startOffset = document.offsetAt(range.start);
+    const seen = new Set<string>();
+    const identifiers: { name: string; position: vscode.Position }[] = [];
+    const identifier = /[A-Za-z_$][\w$]*/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = identifier.exec(text)) !== null && seen.size < MAX_IDENTIFIERS) {
+        const name = match[0];
+        if (seen.has(name) || KEYWORDS.has(name) || name.length < 2) {
+            continue;
+        }
+        seen.add(name);
+        identifiers.push({ name, position: document.positionAt(startOffset + match.index) });
+    }
+
+    const abortController = new AbortController();
+    const queue = new JobQueue(DEFINITION_CONCURRENCY, abortController.signal);
+    let tokens = 0;
+
+    const lookup = async (name: string, position: vscode.Position): Promise<Omit<ContextItem, 'tokens'> | undefined> => {
+        const locations = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+            'vscode.executeDefinitionProvider',
+            document.uri,
+            position
+        );
+        const location = locations?.[0];
+        if (!location || abortController.signal.aborted) {
+            return undefined;
+        }
+
+        const uri = 'targetUri' in location ? location.targetUri : location.uri;
+        const targetRange = 'targetRange' in location ? location.targetRange : location.range;
+        const sameDocument = uri.toString() === document.uri.toString();
+        // Определения внутри самого фрагмента или охватывающего символа уже есть в промпте
+        if (sameDocument && (range.contains(targetRange) || enclosingRange?.contains(targetRange))) {
+            return undefined;
+        }
+        if (!sameDocument && !isProjectFile(uri)) {
+            return undefined;
+        }
+
+        try {
+            const definitionDocument = await vscode.workspace.openTextDocument(uri);
+            const definitionText = await getDefinitionText(definitionDocument, targetRange);
+            if (!definitionText) {
+                return undefined;
+            }
+            tokens += estimateTokens(definitionText);
+            if (tokens >= budget) {
+                abortController.abort();
+            }
+            return { kind: 'definition', label: `definition of ${name}`, uri, text: definitionText };
+        } catch (error) {
+            console.error(`[OllamaCodeFixer] Failed to read definition of ${name}:`, error);
+            return undefined;
+        }
+    };
+
+    // Задачи, не начавшиеся до исчерпания бюджета, завершаются отменой
+    const found = await Promise.all(identifiers.map(({ name, position }) =>
+        queue.add(() => lookup(name, position)).catch(() => undefined)
+    ));
+
+    const definitions: Omit<ContextItem, 'tokens'>[] = [];
+    for (const definition of found) {
+        if (definition && !definitions.some(d => d.text === definition.text)) {
+            definitions.push(definition);
+        }
+    }
+    return definitions;
+}
+
+// Файл проекта, а не зависимость: в рабочей области и не в каталоге пакетов
+function isProjectFile(uri: vscode.Uri): boolean {
+    if (uri.scheme === 'untitled') {
+        return true;
+    }
+    return uri.scheme === 'file' && !!vscode.workspace.getWorkspaceFolder(uri) && !LIBRARY_PATH.test(uri.path);
+}
+
+// Текст символа, которому принадлежит определение, а без символа — несколько строк вокруг
+async function getDefinitionText(document: vscode.TextDocument, range: vscode.Range): Promise<string> {
+    const symbols = await getDocumentSymbols(document);
+    const symbol = findContainingSymbol(symbols, range);
+    if (symbol && (symbol.selectionRange.intersection(range) || symbol.range.start.line === range.start.line)) {
+        return document.getText(symbol.range);
+    }
+    const startLine = Math.max(0, range.start.line - DEFINITION_FALLBACK_LINES);
+    const endLine = Math.min(document.lineCount - 1, range.end.line + DEFINITION_FALLBACK_LINES);
+    return document.getText(new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length));
+}
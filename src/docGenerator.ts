@@ -0,0 +1,350 @@
+import * as vscode from 'vscode';
+import { getDocumentSymbols } from './fixer';
+import { OllamaClient } from './ollama/client';
+import { resolveModel } from './modelRouting';
+import { isCancellationError } from './utils/retry';
+import { estimateTokens } from './utils/tokens';
+
+const DOCUMENTED_KINDS = [
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Interface
+];
+const CONTAINER_KINDS = [
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Module,
+    vscode.SymbolKind.Namespace
+];
+
+// Код большого класса модели не нужен целиком: для doc comment хватает начала
+const MAX_SYMBOL_TOKENS = 1500;
+
+const DOC_STYLES: Record<string, string> = {
+    javascript: 'JSDoc (/** ... */ with @param and @returns)',
+    javascriptreact: 'JSDoc (/** ... */ with @param and @returns)',
+    typescript: 'TSDoc (/** ... */ with @param and @returns, without types in tags)',
+    typescriptreact: 'TSDoc (/** ... */ with @param and @returns, without types in tags)',
+    python: 'a PEP 257 docstring in triple double quotes',
+    java: 'Javadoc (/** ... */ with @param, @return and @throws)',
+    kotlin: 'KDoc (/** ... */)',
+    csharp: 'XML documentation comments (/// <summary> ...)',
+    go: 'a Go doc comment (// lines starting with the symbol name)',
+    rust: 'Rust doc comments (/// lines)',
+    php: 'PHPDoc (/** ... */)',
+    ruby: 'YARD comments (# lines with @param and @return)',
+    c: 'Doxygen comments (/** ... */)',
+    cpp: 'Doxygen comments (/** ... */)',
+    swift: 'Swift documentation comments (/// lines)',
+    dart: 'Dart doc comments (/// lines)'
+};
+
+// Языки, где документация пишется строчными комментариями; в остальных — блок /** ... */
+const LINE_DOC_PREFIXES: Record<string, string> = {
+    csharp: '///',
+    rust: '///',
+    swift: '///',
+    dart: '///',
+    go: '//',
+    ruby: '#'
+};
+
+const SYMBOL_KIND_LABELS: Partial<Record<vscode.SymbolKind, string>> = {
+    [vscode.SymbolKind.Function]: 'function',
+    [vscode.SymbolKind.Method]: 'method',
+    [vscode.SymbolKind.Constructor]: 'constructor',
+    [vscode.SymbolKind.Class]: 'class',
+    [vscode.SymbolKind.Interface]: 'interface'
+};
+
+interface UndocumentedSymbol {
+    symbol: vscode.DocumentSymbol;
+    // Полное имя с контейнером, например Parser.parse
+    name: string;
+}
+
+interface DocInsertion {
+    position: vscode.Position;
+    text: string;
+}
+
+function indentationOf(line: string): string {
+    return line.match(/^[ \t]*/)?.[0] || '';
+}
+
+// Первая строка объявления, к которой относится комментарий: декораторы и аннотации идут выше
+function declarationStartLine(document: vscode.TextDocument, symbol: vscode.DocumentSymbol): number {
+    let line = symbol.range.start.line;
+    while (line > 0 && document.lineAt(line - 1).text.trim().startsWith('@')) {
+        line--;
+    }
+    return line;
+}
+
+// Строка с двоеточием, которым заканчивается заголовок def/class в Python
+function pythonHeaderEndLine(document: vscode.TextDocument, symbol: vscode.DocumentSymbol): number {
+    for (let line = symbol.selectionRange.start.line; line <= symbol.range.end.line; line++) {
+        if (/:\s*(#.*)?$/.test(document.lineAt(line).text)) {
+            return line;
+        }
+    }
+    return symbol.selectionRange.start.line;
+}
+
+function hasDocComment(document: vscode.TextDocument, symbol: vscode.DocumentSymbol): boolean {
+    if (document.languageId === 'python') {
+        const header = pythonHeaderEndLine(document, symbol);
+        for (let line = header + 1; line <= symbol.range.end.line && line < document.lineCount; line++) {
+            const text = document.lineAt(line).text.trim();
+            if (text) {
+                return /^[rRuUbB]?("""|''')/.test(text);
+            }
+        }
+        return false;
+    }
+
+    // Некоторые провайдеры включают комментарий в диапазон символа
+    const syntax = LINE_DOC_PREFIXES[document.languageId];
+    const first = document.lineAt(symbol.range.start.line).text.trim();
+    if (syntax ? first.startsWith(syntax) : first.startsWith('/**')) {
+        return true;
+    }
+    const start = declarationStartLine(document, symbol);
+    if (start === 0) {
+        return false;
+    }
+    const previous = document.lineAt(start - 1).text.trim();
+    if (syntax) {
+        return previous.startsWith(syntax);
+    }
+    // Обычный блочный комментарий /* ... */ документацией не считается, нужен /**
+    if (!previous.endsWith('*/')) {
+        return false;
+    }
+    for (let line = start - 1; line >= 0; line--) {
+        const text = document.lineAt(line).text.trim();
+        if (text.includes('/*')) {
+            return text.startsWith('/**');
+        }
+    }
+    return false;
+}
+
+function collectUndocumented(document: vscode.TextDocument, symbols: vscode.DocumentSymbol[]): UndocumentedSymbol[] {
+    const result: UndocumentedSymbol[] = [];
+    const visit = (symbol: vscode.DocumentSymbol, container?: string) => {
+        const name = container ? `${container}.${symbol.name}` : symbol.name;
+        if (DOCUMENTED_KINDS.includes(symbol.kind) && !hasDocComment(document, symbol)) {
+            result.push({ symbol, name });
+        }
+        if (CONTAINER_KINDS.includes(symbol.kind)) {
+            symbol.children.forEach(child => visit(child, name));
+        }
+    };
+    symbols.forEach(symbol => visit(symbol));
+    return result.sort((a, b) => a.symbol.range.start.compareTo(b.symbol.range.start));
+}
+
+function buildDocPrompt(document: vscode.TextDocument, item: UndocumentedSymbol): string {
+    const style = DOC_STYLES[document.languageId] || 'the idiomatic documentation comment format for this language';
+    let code = document.getText(item.symbol.range);
+    if (estimateTokens(code) > MAX_SYMBOL_TOKENS) {
+        code = code.slice(0, MAX_SYMBOL_TOKENS * 4) + '\n...';
+    }
+    const kind = SYMBOL_KIND_LABELS[item.symbol.kind] || 'symbol';
+
+    return [
+        `Write a documentation comment for the ${kind} \`${item.name}\` below.`,
+        `Language: ${document.languageId}`,
+        `Format: ${style}.`,
+        'Describe what it does, its parameters, return value and thrown errors where relevant. Be concise and do not restate the code.',
+        'Return only the raw comment text without markdown fences: no code, no declaration line, no explanations.',
+        '',
+        `\`\`\`${document.languageId}\n${code}\n\`\`\``
+    ].join('\n');
+}
+
+// Убирает общий отступ ответа модели, чтобы добавить отступ символа
+function dedent(text: string): string[] {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    while (lines.length > 0 && !lines[0].trim()) {
+        lines.shift();
+    }
+    while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+        lines.pop();
+    }
+    const indents = lines.filter(line => line.trim()).map(line => indentationOf(line).length);
+    const common = indents.length > 0 ? Math.min(...indents) : 0;
+    return lines.map(line => line.slice(common));
+}
+
+// Ограждение может прийти без закрывающих ``` или не прийти вовсе
+function extractComment(response: string): string {
+    const match = response.match(/```[^\n]*\n([\s\S]*?)(?:```|$)/);
+    return (match ? match[1] : response).trim();
+}
+
+// Модель иногда повторяет объявление вместе с комментарием; такой ответ не вставляем
+function isValidComment(languageId: string, lines: string[]): boolean {
+    if (lines.length === 0) {
+        return false;
+    }
+    if (languageId === 'python') {
+        return /^[rRuU]?("""|''')/.test(lines[0]) && /("""|''')$/.test(lines[lines.length - 1]);
+    }
+    return lines.every(line => /^(\/\*\*?|\*|\/\/|#)/.test(line.trim()) || !line.trim());
+}
+
+function buildInsertion(document: vscode.TextDocument, symbol: vscode.DocumentSymbol, lines: string[]): DocInsertion {
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+
+    if (document.languageId === 'python') {
+        const header = pythonHeaderEndLine(document, symbol);
+        let indent = indentationOf(document.lineAt(symbol.selectionRange.start.line).text) + '    ';
+        for (let line = header + 1; line <= symbol.range.end.line && line < document.lineCount; line++) {
+            if (document.lineAt(line).text.trim()) {
+                indent = indentationOf(document.lineAt(line).text);
+                break;
+            }
+        }
+        const text = lines.map(line => line ? indent + line : line).join(eol) + eol;
+        return { position: new vscode.Position(header + 1, 0), text };
+    }
+
+    const start = declarationStartLine(document, symbol);
+    const indent = indentationOf(document.lineAt(start).text);
+    // Строки " * ..." блочного комментария выравниваются по звёздочке открывающей "/**"
+    const text = lines.map(line => {
+        if (!line) {
+            return line;
+        }
+        return line.startsWith('*') ? `${indent} ${line}` : indent + line;
+    }).join(eol) + eol;
+    return { position: new vscode.Position(start, 0), text };
+}
+
+/**
+ * Документирование всех функций, классов и методов файла без doc comment. Список символов
+ * показывается перед генерацией, а все комментарии вставляются одной правкой.
+ */
+export class DocGenerator implements vscode.Disposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly client: OllamaClient) {
+        this._disposables.push(
+            vscode.commands.registerTextEditorCommand('ollama-code-fixer.documentFile', editor => this.documentFile(editor))
+        );
+    }
+
+    private async documentFile(editor: vscode.TextEditor): Promise<void> {
+        const document = editor.document;
+        const symbols = await getDocumentSymbols(document);
+        if (symbols.length === 0) {
+            vscode.window.showInformationMessage('No symbols found in this file. Is a language extension installed for it?');
+            return;
+        }
+
+        const undocumented = collectUndocumented(document, symbols);
+        if (undocumented.length === 0) {
+            vscode.window.showInformationMessage('Every function, class and method in this file already has a doc comment.');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            undocumented.map(item => ({
+                label: item.name,
+                description: SYMBOL_KIND_LABELS[item.symbol.kind],
+                detail: `Line ${item.symbol.selectionRange.start.line + 1}`,
+                picked: true,
+                item
+            })),
+            {
+                canPickMany: true,
+                placeHolder: `${undocumented.length} symbol(s) without doc comments will be documented. Uncheck any to skip.`
+            }
+        );
+        if (!picked || picked.length === 0) {
+            return;
+        }
+
+        const version = document.version;
+        const insertions: DocInsertion[] = [];
+        const failed: string[] = [];
+        const { model, options } = resolveModel('docs', document.languageId);
+
+        const completed = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Ollama: Documenting file',
+                cancellable: true
+            },
+            async (progress, token) => {
+                const abortController = new AbortController();
+                token.onCancellationRequested(() => abortController.abort());
+
+                for (const [index, { item }] of picked.entries()) {
+                    progress.report({
+                        increment: index === 0 ? 0 : 100 / picked.length,
+                        message: `${index + 1}/${picked.length}: ${item.name}`
+                    });
+                    try {
+                        const response = await this.client.generate(
+                            { model, prompt: buildDocPrompt(document, item), options },
+                            abortController.signal
+                        );
+                        const lines = dedent(extractComment(response.response));
+                        if (isValidComment(document.languageId, lines)) {
+                            insertions.push(buildInsertion(document, item.symbol, lines));
+                        } else {
+                            console.warn(`[OllamaCodeFixer] Unexpected doc comment for ${item.name}:\n${response.response}`);
+                            failed.push(item.name);
+                        }
+                    } catch (error) {
+                        if (isCancellationError(error) || abortController.signal.aborted) {
+                            return false;
+                        }
+                        console.error(`[OllamaCodeFixer] Failed to document ${item.name}:`, error);
+                        failed.push(item.name);
+                    }
+                }
+                return true;
+            }
+        );
+        if (!completed || insertions.length === 0) {
+            if (completed && failed.length > 0) {
+                vscode.window.showErrorMessage(`Ollama could not document ${failed.join(', ')}.`);
+            }
+            return;
+        }
+
+        if (document.version !== version) {
+            vscode.window.showWarningMessage('The file was edited while doc comments were generated. No changes were made.');
+            return;
+        }
+
+        // Одна правка — одно действие отмены для всех комментариев
+        const edit = new vscode.WorkspaceEdit();
+        for (const insertion of insertions) {
+            edit.insert(document.uri, insertion.position, insertion.text);
+        }
+        if (!await vscode.workspace.applyEdit(edit)) {
+            console.log('[OllamaCodeFixer] Doc comments were not applied.');
+            return;
+        }
+
+        const summary = `Added doc comments to ${insertions.length} symbol(s).`;
+        if (failed.length > 0) {
+            vscode.window.showWarningMessage(`${summary} Skipped: ${failed.join(', ')}.`);
+        } else {
+            vscode.window.showInformationMessage(summary);
+        }
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
@@ -1,143 +1,25 @@
 import * as vscode from 'vscode';
-import axios, { AxiosError, AxiosResponse } from 'axios';
-import { OllamaCodeFixerChatProvider } from './chatProvider';
-import { RetryManager } from './utils/retry';
-
-// Интерфейс для ответа Ollama (упрощенный)
-interface OllamaGenerateResponse {
-  model: string;
-  created_at: string;
-  response: string;
-  done: boolean;
-  context?: number[];
-  total_duration?: number;
-  load_duration?: number;
-  prompt_eval_count?: number;
-  prompt_eval_duration?: number;
-  eval_count?: number;
-  eval_duration?: number;
-}
-
-// Функция для получения или дефолтного значения настройки
-function getConfigOrThrow<T>(key: string, defaultValue?: T): T {
-  const value = vscode.workspace.getConfiguration('ollamaCodeFixer').get<T>(key);
-  if (value === undefined) {
-    if (defaultValue !== undefined) {
-      return defaultValue;
-    }
-    throw new Error(`Missing configuration: ollamaCodeFixer.${key}`);
-  }
-  return value;
-}
-
-async function getCorrectionFromOllama(
-  codeSnippet: string,
-  languageId: string
-): Promise<string | null> {
-  const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
-  const apiUrl = getConfigOrThrow<string>('ollamaApiUrl', 'http://localhost:11434/api/generate');
-  const modelName = getConfigOrThrow<string>('modelName', 'gemma:4b');
-  const requestTimeout = getConfigOrThrow<number>('requestTimeout', 90000);
-  const enableNotifications = getConfigOrThrow<boolean>('enableNotifications', true);
-  const logLevel = getConfigOrThrow<string>('logLevel', 'info');
-  const retryManager = new RetryManager();
-
-  const promptStructure = getConfigOrThrow<{ prefix: string; suffix: string }>(
-    'promptStructure',
-    {
-      prefix: "[INST] You are an expert AI programming assistant. Your task is to analyze the provided code snippet, identify any errors or areas for improvement, and return *only* the corrected and optimized code block. Do not include any explanations, apologies, or markdown formatting around the code block itself unless the language implies it (like for markdown file corrections). If the code is already perfect or no changes are needed, return the original code snippet as is.\n\nLanguage: {language}\n\nProblematic Code Snippet:\n```\n",
-      suffix: "\n```\n[/INST]\nCorrected Code Snippet:\n```\n"
-    }
-  );
-
-  let prompt = promptStructure.prefix.replace('{language}', languageId);
-  prompt += codeSnippet;
-  prompt += promptStructure.suffix;
-
-  if (logLevel === 'debug') {
-    console.log(`[OllamaCodeFixer] Sending to ${modelName}. Prompt (first 500 chars):\n${prompt.substring(0, 500)}...`);
-  }
-
-  try {
-    // Используем RetryManager для повторных попыток при ошибках
-    const response: AxiosResponse<OllamaGenerateResponse> = await retryManager.withRetry(
-      async () => axios.post(
-        apiUrl,
-        {
-          model: modelName,
-          prompt: prompt,
-          stream: false,
-        },
-        { timeout: requestTimeout }
-      )
-    );
-
-    let correctedCode = response.data.response.trim();
-
-    if (logLevel === 'debug') {
-      console.log(`[OllamaCodeFixer] Raw response from model:\n${correctedCode}`);
-    }
-
-    const codeBlockRegex = /```(?:\w*\n)?([\s\S]*?)```$/;
-    const match = correctedCode.match(codeBlockRegex);
-
-    if (match && match[1]) {
-      correctedCode = match[1].trim();
-      if (logLevel === 'debug') {
-        console.log(`[OllamaCodeFixer] Extracted code from block:\n${correctedCode}`);
-      }
-    } else {
-      if (logLevel === 'debug') {
-        console.log(`[OllamaCodeFixer] No final code block detected, using trimmed response directly.`);
-      }
-    }
-
-    return correctedCode;
-
-  } catch (error) {
-    let errorMessage: string;
-    
-    if (error instanceof AxiosError) {
-      if (error.response) {
-        errorMessage = `Error calling Ollama API: ${error.message}. Status: ${error.response.status}`;
-        if (error.response.data) {
-          errorMessage += `. Data: ${JSON.stringify(error.response.data)}`;
-        }
-      } else if (error.request) {
-        errorMessage = 'No response received from Ollama. Please check if the service is running and accessible.';
-      } else {
-        errorMessage = `Error configuring request: ${error.message}`;
-      }
-      
-      if (error.code === 'ECONNREFUSED') {
-        errorMessage = 'Could not connect to Ollama server. Please ensure the service is running.';
-      } else if (error.code === 'ETIMEDOUT') {
-        errorMessage = 'Request to Ollama server timed out. The server might be overloaded.';
-      }
-      
-      if (logLevel === 'debug') {
-        console.error('[OllamaCodeFixer] API Call Error:', {
-          message: error.message,
-          code: error.code,
-          config: error.config,
-          response: error.response?.data
-        });
-      }
-    } else if (error instanceof Error) {
-      errorMessage = `Unexpected error: ${error.message}`;
-      console.error('[OllamaCodeFixer] Unexpected Error:', error);
-    } else {
-      errorMessage = 'An unknown error occurred';
-      console.error('[OllamaCodeFixer] Unknown Error:', error);
-    }
-    
-    if (enableNotifications) {
-      vscode.window.showErrorMessage(errorMessage);
-    }
-    
-    return null;
-  }
-}
+import { ChatPanelState, OllamaCodeFixerChatProvider } from './chatProvider';
+import { ChatSessionStore } from './chatSessions';
+import { FixPreviewManager } from './fixPreview';
+import { FixVerifier } from './fixVerifier';
+import { getCorrectionFromOllama, getSurroundingCode } from './fixer';
+import { describeCodeContext, formatCodeContext, gatherContext } from './contextBuilder';
+import { PROMPTS_FOLDER, PromptTemplateStore } from './promptTemplates';
+import { OllamaFixCodeActionProvider } from './codeActions';
+import { BatchFixer } from './batchFixer';
+import { ModelManagerProvider } from './modelManager';
+import { ModelStatusBar } from './modelRouting';
+import { ServerStatusMonitor } from './serverStatus';
+import { QuickActionCommands } from './quickActions';
+import { TestGenerator } from './testGenerator';
+import { DocGenerator } from './docGenerator';
+import { CommitMessageGenerator } from './commitMessage';
+import { CodeReviewer } from './codeReview';
+import { OllamaInlineCompletionProvider } from './inlineCompletion';
+import { OllamaClient } from './ollama/client';
+import { OllamaError } from './ollama/errors';
+import { EditorTracker } from './utils/editorTracker';
 
 // Элемент для боковой панели
 class FixerTreeItem extends vscode.TreeItem {
@@ -210,57 +92,72 @@ class OllamaCodeFixerViewProvider implements vscode.TreeDataProvider<FixerTreeIt
 export function activate(context: vscode.ExtensionContext) {
   console.log("[OllamaCodeFixer] Extension activated.");
 
-  // Статусная строка
-  const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
-  statusBarItem.text = 'Ollama: Checking...';
-  statusBarItem.show();
-
-  const retryManager = new RetryManager();
-  const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
-  let baseUrl = config.get<string>('ollamaApiUrl', 'http://localhost:11434');
-
-  try {
-    const urlObj = new URL(baseUrl);
-    baseUrl = `${urlObj.protocol}//${urlObj.host}`;
-  } catch (e) {
-    console.error("[OllamaCodeFixer] Invalid ollamaApiUrl, using default base.", e);
-    baseUrl = 'http://localhost:11434';
-  }
+  // Общий клиент Ollama для исправления кода, чата и проверки статуса
+  const ollamaClient = new OllamaClient();
+  const endpoints = ollamaClient.endpoints;
 
-  // Периодическая проверка статуса API
-  const checkApiStatus = async () => {
-    try {
-      await retryManager.withRetry(async () => axios.get(baseUrl, { timeout: 5000 }));
-      statusBarItem.text = 'Ollama: Active';
-      statusBarItem.tooltip = 'Ollama API is running';
-      statusBarItem.backgroundColor = undefined;
-    } catch (error) {
-      statusBarItem.text = 'Ollama: Offline';
-      statusBarItem.tooltip = 'Ollama API is not accessible';
-      statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
-
-      if (error instanceof AxiosError) {
-        console.error('[OllamaCodeFixer] API Status Check Error:', {
-          message: error.message,
-          code: error.code,
-          response: error.response?.status
-        });
-      }
-    }
-  };
-
-  // Выполняем первоначальную проверку
-  checkApiStatus();
-
-  // Настраиваем периодическую проверку каждые 30 секунд
-  const statusCheckInterval = setInterval(checkApiStatus, 30000);
+  // Статус сервера в строке состояния с адаптивным опросом всех профилей
+  const serverStatus = new ServerStatusMonitor(ollamaClient);
 
   // Регистрация представления в боковой панели
   const provider = new OllamaCodeFixerViewProvider();
   vscode.window.registerTreeDataProvider('ollamaCodeFixerView', provider);
 
+  // Предпросмотр исправлений в виде diff
+  const fixPreview = new FixPreviewManager();
+
   // Инициализация чат-провайдера
-  const chatProvider = new OllamaCodeFixerChatProvider(context.extensionUri);
+  const chatProvider = new OllamaCodeFixerChatProvider(
+    context.extensionUri,
+    new ChatSessionStore(context.workspaceState),
+    ollamaClient,
+    fixPreview
+  );
+
+  // Восстановление панели чата после перезагрузки окна
+  const chatSerializer = vscode.window.registerWebviewPanelSerializer(OllamaCodeFixerChatProvider.viewType, {
+    async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: ChatPanelState | undefined) {
+      chatProvider.restorePanel(panel, state);
+    }
+  });
+
+  // Вопросы о коде из контекстного меню редактора
+  const quickActions = new QuickActionCommands(chatProvider);
+
+  // Последний редактор нужен командам, которые вызываются из панели чата
+  const editorTracker = EditorTracker.getInstance();
+
+  // Шаблоны промптов из .ollamafixer/prompts
+  const promptTemplates = PromptTemplateStore.getInstance();
+
+  const fixVerifier = new FixVerifier(ollamaClient, fixPreview);
+
+  // Быстрые исправления в лампочке для ошибок и предупреждений
+  const codeActionProvider = new OllamaFixCodeActionProvider(ollamaClient);
+
+  // Исправление целых файлов и папок
+  const batchFixer = new BatchFixer(ollamaClient);
+
+  // Генерация модульных тестов в файл тестов проекта
+  const testGenerator = new TestGenerator(ollamaClient);
+
+  // Doc comments для всех символов файла
+  const docGenerator = new DocGenerator(ollamaClient);
+
+  // Сообщение коммита по индексированным изменениям
+  const commitMessageGenerator = new CommitMessageGenerator(ollamaClient);
+
+  // Проверка изменений с находками в виде комментариев
+  const codeReviewer = new CodeReviewer(ollamaClient);
+
+  // Подсказки серым текстом по модели с поддержкой fill-in-the-middle
+  const inlineCompletions = new OllamaInlineCompletionProvider(ollamaClient);
+
+  // Менеджер локальных моделей в боковой панели
+  const modelManager = new ModelManagerProvider(ollamaClient);
+
+  // Модель для текущего редактора с учётом правил маршрутизации
+  const modelStatusBar = new ModelStatusBar();
 
   // Команда для исправления кода
   let disposableFix = vscode.commands.registerCommand('ollama-code-fixer.fixSelectedCode', async () => {
@@ -278,6 +175,8 @@ export function activate(context: vscode.ExtensionContext) {
 
     const selectedText = editor.document.getText(selection);
     const languageId = editor.document.languageId;
+    // Ошибки исходного фрагмента нужны режиму проверки для сравнения
+    const baseline = FixVerifier.enabled ? FixVerifier.captureBaseline(editor.document, selection) : undefined;
 
     await vscode.window.withProgress(
       {
@@ -286,18 +185,37 @@ export function activate(context: vscode.ExtensionContext) {
         cancellable: true,
       },
       async (progress, token) => {
+        // Отмена в уведомлении прерывает HTTP-запрос и ожидание между повторами
+        const abortController = new AbortController();
         token.onCancellationRequested(() => {
           console.log('[OllamaCodeFixer] User cancelled the Ollama request.');
+          abortController.abort();
           vscode.window.showInformationMessage('Ollama code correction cancelled.');
         });
 
-        progress.report({ increment: 0, message: 'Sending code to local Ollama AI...' });
+        progress.report({ increment: 0, message: 'Gathering context...' });
+        const codeContext = await gatherContext(editor.document, selection);
+        if (codeContext) {
+          vscode.window.setStatusBarMessage(`Ollama context: ${describeCodeContext(codeContext)}`, 10000);
+        }
+
+        progress.report({ increment: 10, message: 'Sending code to local Ollama AI...' });
 
         if (token.isCancellationRequested) {
           return;
         }
 
-        const correctedCode = await getCorrectionFromOllama(selectedText, languageId);
+        const correctedCode = await getCorrectionFromOllama(
+          ollamaClient,
+          {
+            code: selectedText,
+            languageId,
+            fileName: vscode.workspace.asRelativePath(editor.document.uri),
+            surroundingCode: getSurroundingCode(editor.document, selection),
+            context: codeContext ? formatCodeContext(codeContext) : undefined
+          },
+          abortController.signal
+        );
 
         if (token.isCancellationRequested) {
           return;
@@ -313,33 +231,12 @@ export function activate(context: vscode.ExtensionContext) {
           return;
         }
 
-        progress.report({ increment: 80, message: 'Applying AI suggestions...' });
-
-        const currentEditor = vscode.window.activeTextEditor;
-        const currentSelection = currentEditor?.selection;
-
-        if (currentEditor && currentEditor.document === editor.document && currentSelection && currentSelection.isEqual(selection)) {
-          currentEditor
-            .edit(editBuilder => {
-              editBuilder.replace(selection, correctedCode);
-            })
-            .then(success => {
-              if (success) {
-                vscode.window.showInformationMessage('Code updated by Ollama AI!');
-                console.log('[OllamaCodeFixer] Code replacement successful.');
-              } else {
-                vscode.window.showErrorMessage('Failed to apply code changes.');
-                console.log('[OllamaCodeFixer] Code replacement failed.');
-              }
-            }, (editError) => {
-              vscode.window.showErrorMessage(`Failed to apply edits: ${editError.message || editError}`);
-              console.error('[OllamaCodeFixer] Edit operation failed:', editError);
-            });
-        } else {
-          vscode.window.showWarningMessage(
-            'Editor selection or focus changed during AI processing. Suggestion not applied automatically.'
-          );
-          console.warn('[OllamaCodeFixer] Selection/focus changed, correction not applied. Suggested code:\n' + correctedCode);
+        progress.report({ increment: 70, message: 'Opening suggestion preview...' });
+
+        // Предложение показывается в diff для исходного диапазона, даже если выделение уже сменилось
+        const suggestionId = await fixPreview.showSuggestion(editor.document, selection, selectedText, correctedCode);
+        if (baseline) {
+          fixVerifier.track(suggestionId, baseline);
         }
         progress.report({ increment: 100, message: 'Finished.' });
       }
@@ -348,57 +245,114 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Команда для проверки статуса API
   let disposableCheckApi = vscode.commands.registerCommand('ollama-code-fixer.checkApiStatus', async () => {
-    let baseUrl = getConfigOrThrow<string>('ollamaApiUrl', 'http://localhost:11434');
-    
-    try {
-      const urlObj = new URL(baseUrl);
-      baseUrl = `${urlObj.protocol}//${urlObj.host}`;
-    } catch (e) {
-      console.error("[OllamaCodeFixer] Invalid ollamaApiUrl for health check, using default base.", e);
-      baseUrl = 'http://localhost:11434';
-    }
-
-    console.log(`[OllamaCodeFixer] Checking API status at: ${baseUrl}`);
-
-    const retryManager = new RetryManager();
+    const endpoint = endpoints.current;
+    console.log(`[OllamaCodeFixer] Checking API status at: ${endpoint.url}`);
 
     try {
-      await retryManager.withRetry(async () => {
-        return axios.get(baseUrl, { timeout: 5000 });
-      });
-      
-      vscode.window.showInformationMessage('Ollama API is accessible! Base URL check successful.');
+      await ollamaClient.ping();
+      endpoints.markOnline(endpoint);
+      vscode.window.showInformationMessage(`Ollama API is accessible at ${endpoint.url} (${endpoint.name}).`);
     } catch (error) {
-      let statusMessage = 'Ollama API is not accessible.';
-      
-      if (error instanceof AxiosError) {
-        if (error.response) {
-          statusMessage += ` Status: ${error.response.status}`;
-        } else if (error.request) {
-          statusMessage += ' No response received.';
-        } else {
-          statusMessage += ` Error: ${error.message}`;
-        }
-      } else {
-        statusMessage += ' Unknown error occurred.';
-      }
-      
+      const statusMessage = error instanceof OllamaError
+        ? `Ollama API is not accessible. ${error.message}`
+        : 'Ollama API is not accessible. Unknown error occurred.';
+
+      endpoints.markOffline(endpoint, error);
       console.error('[OllamaCodeFixer] checkApiStatus Error:', error);
       vscode.window.showErrorMessage(statusMessage);
     }
   });
 
+  // Переключатель профилей адресов Ollama в строке состояния
+  let disposableSelectEndpoint = vscode.commands.registerCommand('ollama-code-fixer.selectEndpoint', async () => {
+    const icons = { online: '$(pass-filled)', offline: '$(error)', unknown: '$(question)' };
+    const selected = endpoints.selected.name;
+    const items: (vscode.QuickPickItem & { name?: string })[] = endpoints.profiles.map(profile => {
+      const health = endpoints.getHealth(profile.name);
+      return {
+        label: `${icons[health.status]} ${profile.name}`,
+        description: profile.name === selected ? `${profile.url} (selected)` : profile.url,
+        detail: health.error,
+        name: profile.name
+      };
+    });
+    items.push({ label: '$(gear) Configure endpoints...' });
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select the Ollama endpoint' });
+    if (!picked) {
+      return;
+    }
+    if (!picked.name) {
+      await vscode.commands.executeCommand('workbench.action.openSettings', 'ollamaCodeFixer.endpoints');
+      return;
+    }
+    await endpoints.select(picked.name);
+    await serverStatus.refresh();
+  });
+
+  // Команда для выбора шаблона исправления для языка активного редактора
+  let disposableSelectTemplate = vscode.commands.registerCommand('ollama-code-fixer.selectFixTemplate', async () => {
+    const languageId = vscode.window.activeTextEditor?.document.languageId;
+    const templates = promptTemplates.getTemplates('fix', languageId);
+    if (templates.length === 0) {
+      vscode.window.showInformationMessage(`No fix templates found. Add them to ${PROMPTS_FOLDER} with "task: fix" in the header.`);
+      return;
+    }
+
+    const defaultItem = { label: 'Default prompt', description: 'ollamaCodeFixer.promptStructure', name: '' };
+    const picked = await vscode.window.showQuickPick(
+      [defaultItem, ...templates.map(t => ({ label: t.name, description: t.description, name: t.name }))],
+      { placeHolder: `Fix template for ${languageId || 'all languages'}` }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+    const mapping = { ...config.get<Record<string, string>>('fixTemplates', {}) };
+    const key = languageId || '*';
+    if (picked.name) {
+      mapping[key] = picked.name;
+    } else {
+      delete mapping[key];
+    }
+    await config.update('fixTemplates', mapping, vscode.ConfigurationTarget.Workspace);
+  });
+
   // Команда для открытия чата
   let disposableChat = vscode.commands.registerCommand('ollama-code-fixer.openChat', () => {
     chatProvider.show();
   });
 
+  // Команда для начала нового диалога в чате
+  let disposableNewConversation = vscode.commands.registerCommand('ollama-code-fixer.newConversation', () => {
+    chatProvider.newConversation();
+  });
+
   context.subscriptions.push(
     disposableFix,
     disposableCheckApi,
     disposableChat,
-    statusBarItem,
-    { dispose: () => clearInterval(statusCheckInterval) }
+    disposableNewConversation,
+    disposableSelectTemplate,
+    disposableSelectEndpoint,
+    promptTemplates,
+    editorTracker,
+    chatSerializer,
+    quickActions,
+    fixPreview,
+    fixVerifier,
+    codeActionProvider,
+    batchFixer,
+    testGenerator,
+    docGenerator,
+    commitMessageGenerator,
+    codeReviewer,
+    inlineCompletions,
+    modelManager,
+    modelStatusBar,
+    serverStatus,
+    ollamaClient
   );
 }
 
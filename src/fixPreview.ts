@@ -0,0 +1,309 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export const FIX_PREVIEW_SCHEME = 'ollama-fix';
+
+// Сведения о применённом предложении для подписчиков onDidApplySuggestion
+export interface AppliedSuggestion {
+    id: string;
+    documentUri: vscode.Uri;
+    // Диапазон, который занимает новый текст после применения
+    range: vscode.Range;
+    originalText: string;
+    appliedText: string;
+    // Момент перед применением правки: диагностики, пришедшие позже, уже относятся к новому тексту
+    appliedAt: number;
+}
+
+// Предложение модели, которое ещё не применено к документу
+interface FixSuggestion {
+    id: string;
+    documentUri: vscode.Uri;
+    range: vscode.Range;
+    originalText: string;
+    suggestedText: string;
+    languageId: string;
+    // Документ, в котором пользователь правит предложение перед применением
+    editedDocument?: vscode.TextDocument;
+    appliedAt?: number;
+}
+
+/**
+ * Показывает исправления в виде diff между исходным фрагментом и предложением модели.
+ * Содержимое обеих сторон отдаётся виртуальным провайдером по схеме ollama-fix.
+ */
+export class FixPreviewManager implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly _suggestions = new Map<string, FixSuggestion>();
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    private readonly _onDidApplySuggestion = new vscode.EventEmitter<AppliedSuggestion>();
+    private readonly _onDidDiscardSuggestion = new vscode.EventEmitter<string>();
+    private readonly _disposables: vscode.Disposable[] = [];
+    readonly onDidChange = this._onDidChange.event;
+    readonly onDidApplySuggestion = this._onDidApplySuggestion.event;
+    // Идентификатор предложения, которое отклонено или заменено новым и уже не будет применено
+    readonly onDidDiscardSuggestion = this._onDidDiscardSuggestion.event;
+
+    constructor() {
+        this._disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(FIX_PREVIEW_SCHEME, this),
+            vscode.commands.registerCommand('ollama-code-fixer.acceptFix', (uri?: vscode.Uri) => this.accept(uri)),
+            vscode.commands.registerCommand('ollama-code-fixer.rejectFix', (uri?: vscode.Uri) => this.reject(uri)),
+            vscode.commands.registerCommand('ollama-code-fixer.editFix', (uri?: vscode.Uri) => this.edit(uri)),
+            vscode.window.onDidChangeActiveTextEditor(editor => this.updateEditingContext(editor)),
+            this._onDidChange,
+            this._onDidApplySuggestion,
+            this._onDidDiscardSuggestion
+        );
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const suggestion = this._suggestions.get(this.getSuggestionId(uri) || '');
+        if (!suggestion) {
+            return '';
+        }
+        return uri.query === 'original' ? suggestion.originalText : suggestion.suggestedText;
+    }
+
+    /**
+     * Открывает diff для предложения. Исходный диапазон запоминается сразу,
+     * поэтому смена выделения или фокуса во время запроса ничего не теряет.
+     * Предыдущие предложения для пересекающегося фрагмента того же документа заменяются.
+     * Возвращает идентификатор предложения, который приходит в onDidApplySuggestion.
+     */
+    public async showSuggestion(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        originalText: string,
+        suggestedText: string
+    ): Promise<string> {
+        const replaced = Array.from(this._suggestions.values()).filter(existing =>
+            existing.documentUri.toString() === document.uri.toString() && existing.range.intersection(range) !== undefined
+        );
+        for (const existing of replaced) {
+            console.log('[OllamaCodeFixer] Suggestion replaced by a new one.');
+            await this.discard(existing);
+            this._onDidDiscardSuggestion.fire(existing.id);
+        }
+
+        const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        const suggestion: FixSuggestion = {
+            id,
+            documentUri: document.uri,
+            range,
+            originalText,
+            suggestedText,
+            languageId: document.languageId
+        };
+        this._suggestions.set(id, suggestion);
+
+        const originalUri = this.buildUri(suggestion, 'original');
+        const suggestedUri = this.buildUri(suggestion, 'suggested');
+        const fileName = path.basename(document.uri.path);
+        const title = `${fileName} (lines ${range.start.line + 1}-${range.end.line + 1}) ↔ Ollama suggestion`;
+
+        await vscode.commands.executeCommand('vscode.diff', originalUri, suggestedUri, title, { preview: false });
+
+        for (const uri of [originalUri, suggestedUri]) {
+            const previewDocument = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+            if (previewDocument && previewDocument.languageId !== suggestion.languageId) {
+                await vscode.languages.setTextDocumentLanguage(previewDocument, suggestion.languageId);
+            }
+        }
+
+        // Не ждём выбора: те же действия доступны кнопками в заголовке diff
+        vscode.window.showInformationMessage(
+            'Ollama suggested changes. Review the diff and choose an action.',
+            'Accept',
+            'Edit',
+            'Reject'
+        ).then(choice => {
+            if (choice === 'Accept') {
+                return this.accept(suggestedUri);
+            } else if (choice === 'Edit') {
+                return this.edit(suggestedUri);
+            } else if (choice === 'Reject') {
+                return this.reject(suggestedUri);
+            }
+        });
+
+        return id;
+    }
+
+    private async accept(uri?: vscode.Uri): Promise<void> {
+        const suggestion = this.resolveSuggestion(uri);
+        if (!suggestion) {
+            vscode.window.showInformationMessage('No pending Ollama suggestion to accept.');
+            return;
+        }
+
+        const newText = suggestion.editedDocument && !suggestion.editedDocument.isClosed
+            ? suggestion.editedDocument.getText()
+            : suggestion.suggestedText;
+
+        const applied = await this.applySuggestion(suggestion, newText);
+        if (!applied) {
+            // Предложение остаётся в diff, чтобы его можно было применить вручную
+            vscode.window.showWarningMessage(
+                'The original code has changed since the request, so the suggestion was not applied. It is still available in the diff view.'
+            );
+            return;
+        }
+
+        vscode.window.showInformationMessage('Code updated by Ollama AI!');
+        console.log('[OllamaCodeFixer] Code replacement successful.');
+        await this.discard(suggestion);
+        this._onDidApplySuggestion.fire({
+            id: suggestion.id,
+            documentUri: suggestion.documentUri,
+            range: suggestion.range,
+            originalText: suggestion.originalText,
+            appliedText: newText,
+            appliedAt: suggestion.appliedAt ?? Date.now()
+        });
+    }
+
+    private async reject(uri?: vscode.Uri): Promise<void> {
+        const suggestion = this.resolveSuggestion(uri);
+        if (!suggestion) {
+            return;
+        }
+        console.log('[OllamaCodeFixer] Suggestion rejected by user.');
+        await this.discard(suggestion);
+        this._onDidDiscardSuggestion.fire(suggestion.id);
+    }
+
+    // Открывает предложение в редактируемом документе; Accept затем применит отредактированный текст
+    private async edit(uri?: vscode.Uri): Promise<void> {
+        const suggestion = this.resolveSuggestion(uri);
+        if (!suggestion) {
+            return;
+        }
+
+        if (!suggestion.editedDocument || suggestion.editedDocument.isClosed) {
+            suggestion.editedDocument = await vscode.workspace.openTextDocument({
+                content: suggestion.suggestedText,
+                language: suggestion.languageId
+            });
+        }
+        const editor = await vscode.window.showTextDocument(suggestion.editedDocument, { preview: false });
+        this.updateEditingContext(editor);
+
+        const editedUri = suggestion.editedDocument.uri;
+        vscode.window.showInformationMessage(
+            'Edit the suggestion, then accept it to apply your version.',
+            'Accept',
+            'Reject'
+        ).then(choice => {
+            if (choice === 'Accept') {
+                return this.accept(editedUri);
+            } else if (choice === 'Reject') {
+                return this.reject(editedUri);
+            }
+        });
+    }
+
+    private async applySuggestion(suggestion: FixSuggestion, newText: string): Promise<boolean> {
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(suggestion.documentUri);
+        } catch (error) {
+            console.error('[OllamaCodeFixer] Could not open the original document:', error);
+            return false;
+        }
+
+        const range = this.locateOriginal(document, suggestion);
+        if (!range) {
+            return false;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, range, newText);
+        suggestion.appliedAt = Date.now();
+        const success = await vscode.workspace.applyEdit(edit);
+        if (success) {
+            suggestion.range = new vscode.Range(range.start, document.positionAt(document.offsetAt(range.start) + newText.length));
+        }
+        return success;
+    }
+
+    // Ищет исходный фрагмент: сначала в исходном диапазоне, затем по единственному вхождению в документе
+    private locateOriginal(document: vscode.TextDocument, suggestion: FixSuggestion): vscode.Range | undefined {
+        const range = document.validateRange(suggestion.range);
+        if (document.getText(range) === suggestion.originalText) {
+            return range;
+        }
+
+        const text = document.getText();
+        const index = text.indexOf(suggestion.originalText);
+        if (index === -1 || text.indexOf(suggestion.originalText, index + 1) !== -1) {
+            return undefined;
+        }
+        return new vscode.Range(document.positionAt(index), document.positionAt(index + suggestion.originalText.length));
+    }
+
+    private async discard(suggestion: FixSuggestion): Promise<void> {
+        this._suggestions.delete(suggestion.id);
+
+        const uris = [
+            this.buildUri(suggestion, 'original').toString(),
+            this.buildUri(suggestion, 'suggested').toString()
+        ];
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputTextDiff && uris.includes(tab.input.modified.toString()));
+        if (tabs.length > 0) {
+            await vscode.window.tabGroups.close(tabs);
+        }
+        this.updateEditingContext(vscode.window.activeTextEditor);
+    }
+
+    private resolveSuggestion(uri?: vscode.Uri): FixSuggestion | undefined {
+        if (uri) {
+            return this.findSuggestion(uri);
+        }
+
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const active = activeUri && this.findSuggestion(activeUri);
+        if (active) {
+            return active;
+        }
+
+        // Команда вызвана не из diff: берём последнее предложение
+        const pending = Array.from(this._suggestions.values());
+        return pending[pending.length - 1];
+    }
+
+    private findSuggestion(uri: vscode.Uri): FixSuggestion | undefined {
+        if (uri.scheme === FIX_PREVIEW_SCHEME) {
+            return this._suggestions.get(this.getSuggestionId(uri) || '');
+        }
+        for (const suggestion of this._suggestions.values()) {
+            if (suggestion.editedDocument?.uri.toString() === uri.toString()) {
+                return suggestion;
+            }
+        }
+        return undefined;
+    }
+
+    private updateEditingContext(editor: vscode.TextEditor | undefined) {
+        const uri = editor?.document.uri.toString();
+        const editing = !!uri && Array.from(this._suggestions.values()).some(s => s.editedDocument?.uri.toString() === uri);
+        vscode.commands.executeCommand('setContext', 'ollamaCodeFixer.editingSuggestion', editing);
+    }
+
+    private buildUri(suggestion: FixSuggestion, side: 'original' | 'suggested'): vscode.Uri {
+        const fileName = path.basename(suggestion.documentUri.path);
+        return vscode.Uri.from({ scheme: FIX_PREVIEW_SCHEME, path: `/${suggestion.id}/${fileName}`, query: side });
+    }
+
+    private getSuggestionId(uri: vscode.Uri): string | undefined {
+        return uri.path.split('/')[1];
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+        this._suggestions.clear();
+    }
+}
@@ -0,0 +1,246 @@
+import * as vscode from 'vscode';
+import { AppliedSuggestion, FixPreviewManager } from './fixPreview';
+import { getCorrectionFromOllama } from './fixer';
+import { OllamaClient } from './ollama/client';
+
+// Сколько ждать публикации диагностик после правки и сколько ждать "тишины" после последнего обновления
+const DIAGNOSTICS_TIMEOUT_MS = 10000;
+const DIAGNOSTICS_SETTLE_MS = 750;
+
+export interface VerificationBaseline {
+    documentUri: vscode.Uri;
+    languageId: string;
+    errorCount: number;
+    errorMessages: Set<string>;
+}
+
+function getErrors(uri: vscode.Uri, range: vscode.Range): vscode.Diagnostic[] {
+    return vscode.languages.getDiagnostics(uri).filter(diagnostic =>
+        diagnostic.severity === vscode.DiagnosticSeverity.Error && range.intersection(diagnostic.range) !== undefined
+    );
+}
+
+/**
+ * Ждёт, пока языковой сервер опубликует диагностики для документа и перестанет их обновлять.
+ * Обновление, пришедшее после since, но до вызова (lastChangedAt), тоже засчитывается:
+ * сервер мог ответить, пока правка применялась и закрывался diff.
+ */
+function waitForDiagnostics(
+    uri: vscode.Uri,
+    since: number,
+    lastChangedAt: number | undefined,
+    token: vscode.CancellationToken
+): Promise<void> {
+    return new Promise(resolve => {
+        let settleTimer: NodeJS.Timeout | undefined;
+        const finish = () => {
+            clearTimeout(timeoutTimer);
+            clearTimeout(settleTimer);
+            listener.dispose();
+            cancelListener.dispose();
+            resolve();
+        };
+        const listener = vscode.languages.onDidChangeDiagnostics(event => {
+            if (event.uris.some(changed => changed.toString() === uri.toString())) {
+                clearTimeout(settleTimer);
+                settleTimer = setTimeout(finish, DIAGNOSTICS_SETTLE_MS);
+            }
+        });
+        const cancelListener = token.onCancellationRequested(finish);
+        const timeoutTimer = setTimeout(finish, DIAGNOSTICS_TIMEOUT_MS);
+        if (lastChangedAt !== undefined && lastChangedAt >= since) {
+            settleTimer = setTimeout(finish, Math.max(0, lastChangedAt + DIAGNOSTICS_SETTLE_MS - Date.now()));
+        }
+    });
+}
+
+/**
+ * Режим проверки для fixSelectedCode: после применения исправления ждёт новые диагностики,
+ * отправляет появившиеся ошибки обратно модели и сообщает, стало ли ошибок меньше.
+ */
+export class FixVerifier implements vscode.Disposable {
+    private readonly _pending = new Map<string, VerificationBaseline>();
+    // Сколько проверок сейчас идёт по каждому документу
+    private readonly _verifying = new Map<string, number>();
+    // Когда диагностики отслеживаемого документа обновлялись в последний раз; подписка есть заранее, чтобы не пропустить обновление сразу после правки
+    private readonly _diagnosticsChangedAt = new Map<string, number>();
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly client: OllamaClient, preview: FixPreviewManager) {
+        this._disposables.push(
+            preview.onDidApplySuggestion(applied => {
+                const baseline = this._pending.get(applied.id);
+                if (baseline) {
+                    this._pending.delete(applied.id);
+                    this.verify(applied, baseline);
+                }
+            }),
+            preview.onDidDiscardSuggestion(id => {
+                const baseline = this._pending.get(id);
+                if (baseline) {
+                    this._pending.delete(id);
+                    this.forgetDiagnostics(baseline.documentUri);
+                }
+            }),
+            vscode.languages.onDidChangeDiagnostics(event => {
+                const now = Date.now();
+                event.uris
+                    .filter(uri => this.isTracked(uri))
+                    .forEach(uri => this._diagnosticsChangedAt.set(uri.toString(), now));
+            })
+        );
+    }
+
+    public static get enabled(): boolean {
+        return vscode.workspace.getConfiguration('ollamaCodeFixer').get<boolean>('verifyFixes', false);
+    }
+
+    // Запоминает ошибки исходного фрагмента до запроса к модели
+    public static captureBaseline(document: vscode.TextDocument, range: vscode.Range): VerificationBaseline {
+        const errors = getErrors(document.uri, range);
+        return {
+            documentUri: document.uri,
+            languageId: document.languageId,
+            errorCount: errors.length,
+            errorMessages: new Set(errors.map(error => error.message))
+        };
+    }
+
+    public track(suggestionId: string, baseline: VerificationBaseline) {
+        this._pending.set(suggestionId, baseline);
+    }
+
+    private async verify(applied: AppliedSuggestion, baseline: VerificationBaseline): Promise<void> {
+        const key = applied.documentUri.toString();
+        this._verifying.set(key, (this._verifying.get(key) ?? 0) + 1);
+        try {
+            await this.verifyAndReport(applied, baseline);
+        } finally {
+            const count = (this._verifying.get(key) ?? 1) - 1;
+            if (count > 0) {
+                this._verifying.set(key, count);
+            } else {
+                this._verifying.delete(key);
+            }
+            this.forgetDiagnostics(applied.documentUri);
+        }
+    }
+
+    private async verifyAndReport(applied: AppliedSuggestion, baseline: VerificationBaseline): Promise<void> {
+        const maxAttempts = vscode.workspace.getConfiguration('ollamaCodeFixer').get<number>('verifyMaxAttempts', 2);
+        let range = applied.range;
+
+        const finalErrors = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Ollama Code Fixer',
+                cancellable: true
+            },
+            async (progress, token) => {
+                const abortController = new AbortController();
+                token.onCancellationRequested(() => abortController.abort());
+
+                progress.report({ message: 'Waiting for diagnostics...' });
+                await this.waitForDiagnostics(applied.documentUri, applied.appliedAt, token);
+
+                for (let attempt = 1; attempt <= maxAttempts && !token.isCancellationRequested; attempt++) {
+                    const errors = getErrors(applied.documentUri, range);
+                    const newErrors = errors.filter(error => !baseline.errorMessages.has(error.message));
+                    if (newErrors.length === 0) {
+                        break;
+                    }
+
+                    progress.report({ message: `New errors found, asking the model again (attempt ${attempt}/${maxAttempts})...` });
+                    const document = await vscode.workspace.openTextDocument(applied.documentUri);
+                    const currentText = document.getText(range);
+                    const correctedCode = await getCorrectionFromOllama(
+                        this.client,
+                        {
+                            code: currentText,
+                            languageId: baseline.languageId,
+                            diagnostics: errors,
+                            startLine: range.start.line,
+                            fileName: vscode.workspace.asRelativePath(document.uri)
+                        },
+                        abortController.signal
+                    );
+                    if (correctedCode === null || correctedCode === currentText || token.isCancellationRequested) {
+                        break;
+                    }
+
+                    const edit = new vscode.WorkspaceEdit();
+                    edit.replace(document.uri, range, correctedCode);
+                    const appliedAt = Date.now();
+                    if (!await vscode.workspace.applyEdit(edit)) {
+                        break;
+                    }
+                    range = new vscode.Range(
+                        range.start,
+                        document.positionAt(document.offsetAt(range.start) + correctedCode.length)
+                    );
+
+                    progress.report({ message: 'Waiting for diagnostics...' });
+                    await this.waitForDiagnostics(applied.documentUri, appliedAt, token);
+                }
+
+                return getErrors(applied.documentUri, range).length;
+            }
+        );
+
+        await this.report(applied, range, baseline.errorCount, finalErrors);
+    }
+
+    private waitForDiagnostics(uri: vscode.Uri, since: number, token: vscode.CancellationToken): Promise<void> {
+        return waitForDiagnostics(uri, since, this._diagnosticsChangedAt.get(uri.toString()), token);
+    }
+
+    // Отметки храним только для документов с ожидающими или идущими проверками
+    private isTracked(uri: vscode.Uri): boolean {
+        const key = uri.toString();
+        return this._verifying.has(key)
+            || Array.from(this._pending.values()).some(baseline => baseline.documentUri.toString() === key);
+    }
+
+    private forgetDiagnostics(uri: vscode.Uri) {
+        if (!this.isTracked(uri)) {
+            this._diagnosticsChangedAt.delete(uri.toString());
+        }
+    }
+
+    private async report(applied: AppliedSuggestion, range: vscode.Range, before: number, after: number): Promise<void> {
+        console.log(`[OllamaCodeFixer] Fix verification: ${before} error(s) before, ${after} after.`);
+
+        if (after < before) {
+            vscode.window.showInformationMessage(`Ollama fix verified: errors reduced from ${before} to ${after}.`);
+            return;
+        }
+        if (after === before) {
+            vscode.window.showInformationMessage(`Ollama fix verified: error count unchanged (${after}).`);
+            return;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Ollama fix increased the error count from ${before} to ${after}.`,
+            'Roll Back',
+            'Keep'
+        );
+        if (choice === 'Roll Back') {
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(applied.documentUri, range, applied.originalText);
+            if (await vscode.workspace.applyEdit(edit)) {
+                vscode.window.showInformationMessage('Ollama fix rolled back.');
+            } else {
+                vscode.window.showErrorMessage('Failed to roll back the Ollama fix.');
+            }
+        }
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+        this._pending.clear();
+        this._verifying.clear();
+        this._diagnosticsChangedAt.clear();
+    }
+}
@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+import { isCancellationError } from './utils/retry';
+import { OllamaClient } from './ollama/client';
+import { OllamaError } from './ollama/errors';
+import { PromptTemplateStore, renderTemplate } from './promptTemplates';
+import { resolveModel } from './modelRouting';
+
+export interface FixRequest {
+    code: string;
+    languageId: string;
+    // Диагностики для исправляемого фрагмента; номера строк считаются от startLine
+    diagnostics?: readonly vscode.Diagnostic[];
+    startLine?: number;
+    // Используются шаблонами промптов из .ollamafixer/prompts
+    fileName?: string;
+    surroundingCode?: string;
+    // Импорты, охватывающий символ и определения, собранные contextBuilder
+    context?: string;
+}
+
+// Строки вокруг фрагмента для переменной {surroundingCode}
+const SURROUNDING_LINES = 10;
+
+const DEFAULT_PROMPT_STRUCTURE = {
+    prefix: "[INST] You are an expert AI programming assistant. Your task is to analyze the provided code snippet, identify any errors or areas for improvement, and return *only* the corrected and optimized code block. Do not include any explanations, apologies, or markdown formatting around the code block itself unless the language implies it (like for markdown file corrections). If the code is already perfect or no changes are needed, return the original code snippet as is.\n\nLanguage: {language}\n{context}\nProblematic Code Snippet:\n```\n",
+    suffix: "\n```\n[/INST]\nCorrected Code Snippet:\n```\n"
+};
+
+// Функция для получения или дефолтного значения настройки
+export function getConfigOrThrow<T>(key: string, defaultValue?: T): T {
+    const value = vscode.workspace.getConfiguration('ollamaCodeFixer').get<T>(key);
+    if (value === undefined) {
+        if (defaultValue !== undefined) {
+            return defaultValue;
+        }
+        throw new Error(`Missing configuration: ollamaCodeFixer.${key}`);
+    }
+    return value;
+}
+
+function formatSeverity(severity: vscode.DiagnosticSeverity): string {
+    switch (severity) {
+        case vscode.DiagnosticSeverity.Error:
+            return 'error';
+        case vscode.DiagnosticSeverity.Warning:
+            return 'warning';
+        case vscode.DiagnosticSeverity.Information:
+            return 'info';
+        default:
+            return 'hint';
+    }
+}
+
+export function formatDiagnostics(diagnostics: readonly vscode.Diagnostic[], startLine = 0): string {
+    return diagnostics.map(diagnostic => {
+        const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+        const source = [diagnostic.source, code].filter(part => part !== undefined && part !== '').join(' ');
+        const line = diagnostic.range.start.line - startLine + 1;
+        return `- line ${line}: [${formatSeverity(diagnostic.severity)}${source ? ` ${source}` : ''}] ${diagnostic.message}`;
+    }).join('\n');
+}
+
+export function getSurroundingCode(document: vscode.TextDocument, range: vscode.Range): string {
+    const startLine = Math.max(0, range.start.line - SURROUNDING_LINES);
+    const endLine = Math.min(document.lineCount - 1, range.end.line + SURROUNDING_LINES);
+    return document.getText(new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length));
+}
+
+/**
+ * Собирает промпт: шаблон исправления, выбранный для языка в fixTemplates, или настройку promptStructure.
+ * В promptStructure {context} заменяется списком диагностик; если в пользовательском префиксе
+ * его нет, контекст добавляется перед префиксом.
+ */
+export function buildFixPrompt(request: FixRequest): string {
+    const template = PromptTemplateStore.getInstance().getFixTemplate(request.languageId);
+    if (template) {
+        return renderTemplate(template.body, {
+            selection: request.code,
+            fileName: request.fileName,
+            language: request.languageId,
+            diagnostics: request.diagnostics ? formatDiagnostics(request.diagnostics, request.startLine) : '',
+            surroundingCode: request.surroundingCode,
+            context: request.context,
+            userInput: ''
+        });
+    }
+
+    const promptStructure = getConfigOrThrow<{ prefix: string; suffix: string }>(
+        'promptStructure',
+        DEFAULT_PROMPT_STRUCTURE
+    );
+
+    let context = '';
+    if (request.context) {
+        context += `\nRelated code from the project (for reference only, do not return it):\n\`\`\`\n${request.context}\n\`\`\`\n`;
+    }
+    if (request.diagnostics && request.diagnostics.length > 0) {
+        context += `\nDiagnostics reported for this code (line numbers are relative to the snippet):\n${formatDiagnostics(request.diagnostics, request.startLine)}\n`;
+    }
+
+    let prefix = promptStructure.prefix.replace('{language}', request.languageId);
+    if (prefix.includes('{context}')) {
+        prefix = prefix.replace('{context}', context);
+    } else if (context) {
+        // Контекст должен остаться внутри инструкции, а не перед [INST]
+        const instruction = prefix.match(/\[INST\][ \t]*/);
+        prefix = instruction
+            ? prefix.replace(instruction[0], `${instruction[0]}${context.trim()}\n\n`)
+            : context.trimStart() + '\n' + prefix;
+    }
+
+    return prefix + request.code + promptStructure.suffix;
+}
+
+/**
+ * Запрашивает у модели исправленный фрагмент. Ошибки пробрасываются вызывающему,
+ * чтобы пакетная обработка могла собрать их в отчёт без уведомлений на каждый файл.
+ */
+export async function requestCorrection(
+    client: OllamaClient,
+    request: FixRequest,
+    signal?: AbortSignal
+): Promise<string> {
+    const { model: modelName, options } = resolveModel('fix', request.languageId);
+    const logLevel = getConfigOrThrow<string>('logLevel', 'info');
+
+    const prompt = buildFixPrompt(request);
+
+    if (logLevel === 'debug') {
+        console.log(`[OllamaCodeFixer] Sending to ${modelName}. Prompt (first 500 chars):\n${prompt.substring(0, 500)}...`);
+    }
+
+    const response = await client.generate(
+        {
+            model: modelName,
+            prompt: prompt,
+            options
+        },
+        signal
+    );
+
+    let correctedCode = response.response.trim();
+
+    if (logLevel === 'debug') {
+        console.log(`[OllamaCodeFixer] Raw response from model:\n${correctedCode}`);
+    }
+
+    const codeBlockRegex = /```(?:\w*\n)?([\s\S]*?)```$/;
+    const match = correctedCode.match(codeBlockRegex);
+
+    if (match && match[1]) {
+        correctedCode = match[1].trim();
+        if (logLevel === 'debug') {
+            console.log(`[OllamaCodeFixer] Extracted code from block:\n${correctedCode}`);
+        }
+    } else {
+        if (logLevel === 'debug') {
+            console.log(`[OllamaCodeFixer] No final code block detected, using trimmed response directly.`);
+        }
+    }
+
+    return correctedCode;
+}
+
+export async function getCorrectionFromOllama(
+    client: OllamaClient,
+    request: FixRequest,
+    signal?: AbortSignal
+): Promise<string | null> {
+    const enableNotifications = getConfigOrThrow<boolean>('enableNotifications', true);
+    const logLevel = getConfigOrThrow<string>('logLevel', 'info');
+
+    try {
+        return await requestCorrection(client, request, signal);
+    } catch (error) {
+        if (isCancellationError(error)) {
+            console.log('[OllamaCodeFixer] Ollama request aborted.');
+            return null;
+        }
+
+        let errorMessage: string;
+
+        if (error instanceof OllamaError) {
+            errorMessage = error.message;
+            console.error('[OllamaCodeFixer] API Call Error:', error.name, error.message);
+            if (logLevel === 'debug') {
+                console.error('[OllamaCodeFixer] API Call Error cause:', error.cause);
+            }
+        } else if (error instanceof Error) {
+            errorMessage = `Unexpected error: ${error.message}`;
+            console.error('[OllamaCodeFixer] Unexpected Error:', error);
+        } else {
+            errorMessage = 'An unknown error occurred';
+            console.error('[OllamaCodeFixer] Unknown Error:', error);
+        }
+        
+        if (enableNotifications) {
+            vscode.window.showErrorMessage(errorMessage);
+        }
+        
+        return null;
+    }
+}
+
+// Иерархические символы документа; провайдеры, отдающие плоский SymbolInformation, не поддерживаются
+export async function getDocumentSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
+    const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+        'vscode.executeDocumentSymbolProvider',
+        document.uri
+    );
+    if (!symbols || symbols.length === 0 || !('children' in symbols[0])) {
+        return [];
+    }
+    return symbols as vscode.DocumentSymbol[];
+}
+
+// Ищет самую вложенную функцию или метод, содержащие диапазон
+export async function findEnclosingSymbol(
+    document: vscode.TextDocument,
+    range: vscode.Range
+): Promise<vscode.DocumentSymbol | undefined> {
+    const symbols = await getDocumentSymbols(document);
+
+    const functionKinds = [
+        vscode.SymbolKind.Function,
+        vscode.SymbolKind.Method,
+        vscode.SymbolKind.Constructor
+    ];
+    let found: vscode.DocumentSymbol | undefined;
+    let candidates = symbols;
+    while (candidates.length > 0) {
+        const container = candidates.find(symbol => symbol.range.contains(range));
+        if (!container) {
+            break;
+        }
+        if (functionKinds.includes(container.kind)) {
+            found = container;
+        }
+        candidates = container.children;
+    }
+    return found;
+}
@@ -0,0 +1,236 @@
+import * as vscode from 'vscode';
+import { OllamaClient } from './ollama/client';
+import { Logger } from './utils/logger';
+import { isCancellationError } from './utils/retry';
+
+// Сколько последних позиций помнить: повторный запрос в той же точке не идёт в модель
+const CACHE_SIZE = 100;
+// Для ключа кэша хватает ближайшего к курсору текста
+const CACHE_PREFIX_CHARS = 500;
+const CACHE_SUFFIX_CHARS = 200;
+// Ошибки дополнения повторяются при каждом нажатии клавиши, поэтому пишем их не чаще раза в минуту
+const ERROR_LOG_INTERVAL = 60000;
+
+interface InlineCompletionSettings {
+    enabled: boolean;
+    model: string;
+    debounce: number;
+    maxTokens: number;
+    contextLength: number;
+}
+
+function getSettings(): InlineCompletionSettings {
+    const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+    return {
+        enabled: config.get<boolean>('inlineCompletionsEnabled', false),
+        model: config.get<string>('inlineCompletionModel', 'qwen2.5-coder:1.5b'),
+        debounce: config.get<number>('inlineCompletionDebounce', 300),
+        maxTokens: config.get<number>('inlineCompletionMaxTokens', 128),
+        contextLength: config.get<number>('contextLength', 4096)
+    };
+}
+
+// Ожидание, которое прерывается при отмене; false — запрос уже не нужен
+function delay(ms: number, token: vscode.CancellationToken): Promise<boolean> {
+    if (token.isCancellationRequested) {
+        return Promise.resolve(false);
+    }
+    return new Promise(resolve => {
+        const timer = setTimeout(() => {
+            subscription.dispose();
+            resolve(true);
+        }, ms);
+        const subscription = token.onCancellationRequested(() => {
+            clearTimeout(timer);
+            subscription.dispose();
+            resolve(false);
+        });
+    });
+}
+
+/**
+ * Текст до и после курсора в пределах бюджета токенов: три четверти — на начало,
+ * остальное — на продолжение файла.
+ */
+function getFimContext(document: vscode.TextDocument, position: vscode.Position, budget: number): { prefix: string; suffix: string } {
+    const offset = document.offsetAt(position);
+    const text = document.getText();
+    // Оценка ~4 символа на токен, как в estimateTokens
+    const prefixChars = Math.floor(budget * 0.75) * 4;
+    const suffixChars = Math.floor(budget * 0.25) * 4;
+    return {
+        prefix: text.slice(Math.max(0, offset - prefixChars), offset),
+        suffix: text.slice(offset, offset + suffixChars)
+    };
+}
+
+/**
+ * Подсказки «серым текстом» через fill-in-the-middle: в /api/generate передаются prompt
+ * и suffix. Запросы идут через тихий путь OllamaClient.complete: без повторов, переключения
+ * профилей и замера времени, чтобы набор текста не порождал уведомлений.
+ */
+export class OllamaInlineCompletionProvider implements vscode.InlineCompletionItemProvider, vscode.Disposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+    private readonly _cache = new Map<string, string>();
+    private readonly _item: vscode.StatusBarItem;
+    private _abortController: AbortController | undefined;
+    private _lastErrorLoggedAt = 0;
+    private _suppressedErrors = 0;
+
+    constructor(private readonly client: OllamaClient) {
+        this._item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 98);
+        this._item.command = 'ollama-code-fixer.toggleInlineCompletions';
+
+        this._disposables.push(
+            this._item,
+            vscode.languages.registerInlineCompletionItemProvider([{ scheme: 'file' }, { scheme: 'untitled' }], this),
+            vscode.commands.registerCommand('ollama-code-fixer.toggleInlineCompletions', () => this.toggle()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('ollamaCodeFixer.inlineCompletionsEnabled')
+                    || event.affectsConfiguration('ollamaCodeFixer.inlineCompletionModel')) {
+                    this._cache.clear();
+                    this.cancelPending();
+                    this.updateStatus(false);
+                }
+            })
+        );
+        this.updateStatus(false);
+    }
+
+    public async provideInlineCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.InlineCompletionContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.InlineCompletionItem[] | undefined> {
+        const settings = getSettings();
+        if (!settings.enabled || !settings.model) {
+            return undefined;
+        }
+
+        const budget = Math.max(256, settings.contextLength - settings.maxTokens);
+        const { prefix, suffix } = getFimContext(document, position, budget);
+        if (!prefix.trim()) {
+            return undefined;
+        }
+
+        const key = `${document.uri.toString()}\n${prefix.slice(-CACHE_PREFIX_CHARS)}\n${suffix.slice(0, CACHE_SUFFIX_CHARS)}`;
+        const cached = this._cache.get(key);
+        if (cached !== undefined) {
+            return this.toItems(cached, document, position);
+        }
+
+        // Явный вызов (Alt+\) не ждёт, при наборе текста ждём паузу
+        if (context.triggerKind === vscode.InlineCompletionTriggerKind.Automatic && !await delay(settings.debounce, token)) {
+            return undefined;
+        }
+
+        // Ответ на прежнюю позицию курсора уже не нужен
+        this.cancelPending();
+        const abortController = new AbortController();
+        this._abortController = abortController;
+        const subscription = token.onCancellationRequested(() => abortController.abort());
+        this.updateStatus(true);
+
+        try {
+            const response = await this.client.complete(
+                {
+                    model: settings.model,
+                    prompt: prefix,
+                    suffix,
+                    // Для дополнения нужен предсказуемый короткий ответ, а не общие параметры генерации
+                    options: {
+                        temperature: 0.2,
+                        top_p: 0.9,
+                        num_ctx: settings.contextLength,
+                        num_predict: settings.maxTokens
+                    }
+                },
+                abortController.signal
+            );
+            const completion = response.response.replace(/\s+$/, '');
+            this.remember(key, completion);
+            return this.toItems(completion, document, position);
+        } catch (error) {
+            if (!isCancellationError(error) && !abortController.signal.aborted) {
+                this.logError(error);
+            }
+            return undefined;
+        } finally {
+            subscription.dispose();
+            if (this._abortController === abortController) {
+                this._abortController = undefined;
+                this.updateStatus(false);
+            }
+        }
+    }
+
+    // Модель иногда повторяет текст, который уже стоит после курсора в этой строке
+    private toItems(completion: string, document: vscode.TextDocument, position: vscode.Position): vscode.InlineCompletionItem[] {
+        let text = completion;
+        const restOfLine = document.lineAt(position.line).text.slice(position.character).trim();
+        if (restOfLine && text.endsWith(restOfLine)) {
+            text = text.slice(0, -restOfLine.length);
+        }
+        if (!text.trim()) {
+            return [];
+        }
+        return [new vscode.InlineCompletionItem(text, new vscode.Range(position, position))];
+    }
+
+    private logError(error: unknown): void {
+        const now = Date.now();
+        if (now - this._lastErrorLoggedAt < ERROR_LOG_INTERVAL) {
+            this._suppressedErrors++;
+            return;
+        }
+        const suppressed = this._suppressedErrors > 0 ? ` (${this._suppressedErrors} more since the last report)` : '';
+        Logger.getInstance().warn(`Inline completion failed${suppressed}: ${error instanceof Error ? error.message : String(error)}`);
+        this._lastErrorLoggedAt = now;
+        this._suppressedErrors = 0;
+    }
+
+    private remember(key: string, completion: string): void {
+        this._cache.delete(key);
+        this._cache.set(key, completion);
+        if (this._cache.size > CACHE_SIZE) {
+            // Map хранит порядок вставки: первым идёт самый старый ключ
+            const oldest = this._cache.keys().next().value;
+            if (oldest !== undefined) {
+                this._cache.delete(oldest);
+            }
+        }
+    }
+
+    private cancelPending(): void {
+        this._abortController?.abort();
+        this._abortController = undefined;
+    }
+
+    private async toggle(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+        const enabled = !config.get<boolean>('inlineCompletionsEnabled', false);
+        await config.update('inlineCompletionsEnabled', enabled, vscode.ConfigurationTarget.Global);
+        vscode.window.setStatusBarMessage(`Ollama inline completions ${enabled ? 'enabled' : 'disabled'}`, 3000);
+    }
+
+    private updateStatus(loading: boolean): void {
+        const settings = getSettings();
+        if (loading) {
+            this._item.text = '$(sync~spin) Ollama Complete';
+        } else {
+            this._item.text = settings.enabled ? '$(sparkle) Ollama Complete' : '$(circle-slash) Ollama Complete';
+        }
+        this._item.tooltip = settings.enabled
+            ? `Inline completions with ${settings.model}, up to ${settings.maxTokens} tokens. Click to turn off.`
+            : 'Inline completions are off. Click to turn on.';
+        this._item.show();
+    }
+
+    dispose() {
+        this.cancelPending();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
@@ -7,10 +7,25 @@ interface LocaleStrings {
         chatTitle: string;
         welcomeMessage: string;
         sendButton: string;
+        stopButton: string;
+        generationStopped: string;
+        newConversationButton: string;
+        sessionsLabel: string;
+        renameSession: string;
+        renameSessionPrompt: string;
+        deleteSession: string;
+        deleteSessionConfirm: string;
         inputPlaceholder: string;
         loadingMessage: string;
         copyButton: string;
         applyButton: string;
+        insertButton: string;
+        replaceSelectionButton: string;
+        newFileButton: string;
+        diffButton: string;
+        applyToFileButton: string;
+        fileOutsideWorkspace: string;
+        sourceChanged: string;
         understood: string;
         codeAppliedSuccess: string;
         
@@ -23,6 +38,15 @@ interface LocaleStrings {
         checkSecurityPrompt: string;
         createTestsPrompt: string;
         explainCodePrompt: string;
+        templatesTitle: string;
+        includeEditorContext: string;
+        contextIncluded: string;
+        mentionHint: string;
+        removeAttachment: string;
+        selectFilesToAttach: string;
+        workspaceSearchPrompt: string;
+        noWorkspaceMatches: string;
+        fileNotFound: string;
         
         // Model selection
         selectModel: string;
@@ -76,10 +100,25 @@ const strings: LocaleStrings = {    'en': {
         chatTitle: '🦙 Ollama Code Fixer',
         welcomeMessage: 'Hello! I can help you analyze and fix code. Choose a quick prompt above or ask your question.',
         sendButton: 'Send',
-        inputPlaceholder: 'Enter your question or paste code...',
+        stopButton: 'Stop',
+        generationStopped: 'Generation stopped',
+        newConversationButton: 'New conversation',
+        sessionsLabel: 'Conversation:',
+        renameSession: 'Rename',
+        renameSessionPrompt: 'Enter a new name for the conversation',
+        deleteSession: 'Delete',
+        deleteSessionConfirm: 'Delete conversation "{0}"? This cannot be undone.',
+        inputPlaceholder: 'Enter your question or paste code... Type @ to attach context',
         loadingMessage: 'Ollama is processing request...',
         copyButton: 'Copy',
         applyButton: 'Apply',
+        insertButton: 'Insert',
+        replaceSelectionButton: 'Replace Selection',
+        newFileButton: 'New File',
+        diffButton: 'Diff',
+        applyToFileButton: 'Apply to {0}',
+        fileOutsideWorkspace: 'Cannot apply to {0}: the path is outside the open workspace folders.',
+        sourceChanged: 'The code at {0} has changed since the question was asked.',
         understood: 'Got it',        codeAppliedSuccess: 'Code applied successfully!',
         
         // Quick prompts
@@ -91,6 +130,15 @@ const strings: LocaleStrings = {    'en': {
         checkSecurityPrompt: '🔒 Check Security',
         createTestsPrompt: '🧪 Create Tests',
         explainCodePrompt: '❓ Explain Code',
+        templatesTitle: 'Workspace Templates:',
+        includeEditorContext: 'Attach editor selection with related code',
+        contextIncluded: '📎 Context:',
+        mentionHint: 'Attach context, or type @selection, @file:path, @diagnostics or @workspace:query in the message',
+        removeAttachment: 'Remove',
+        selectFilesToAttach: 'Select files to attach to the message',
+        workspaceSearchPrompt: 'Text to search for in the workspace',
+        noWorkspaceMatches: 'No matches for "{0}" in the workspace.',
+        fileNotFound: 'File {0} was not found in the workspace.',
         
         // Model selection
         selectModel: 'Select Model',
@@ -141,10 +189,25 @@ const strings: LocaleStrings = {    'en': {
         chatTitle: '🦙 Ollama Code Fixer',
         welcomeMessage: 'Привет! Я помогу вам с анализом и исправлением кода. Выберите готовую подсказку выше или задайте свой вопрос.',
         sendButton: 'Отправить',
-        inputPlaceholder: 'Введите ваш вопрос или вставьте код...',
+        stopButton: 'Остановить',
+        generationStopped: 'Генерация остановлена',
+        newConversationButton: 'Новый диалог',
+        sessionsLabel: 'Диалог:',
+        renameSession: 'Переименовать',
+        renameSessionPrompt: 'Введите новое название диалога',
+        deleteSession: 'Удалить',
+        deleteSessionConfirm: 'Удалить диалог "{0}"? Это действие нельзя отменить.',
+        inputPlaceholder: 'Введите ваш вопрос или вставьте код... Наберите @, чтобы приложить контекст',
         loadingMessage: 'Ollama обрабатывает запрос...',
         copyButton: 'Копировать',
         applyButton: 'Применить',
+        insertButton: 'Вставить',
+        replaceSelectionButton: 'Заменить выделение',
+        newFileButton: 'Новый файл',
+        diffButton: 'Сравнить',
+        applyToFileButton: 'Применить к {0}',
+        fileOutsideWorkspace: 'Нельзя применить к {0}: путь вне открытых папок рабочей области.',
+        sourceChanged: 'Код в {0} изменился с момента вопроса.',
         understood: 'Понятно',        codeAppliedSuccess: 'Код успешно применён!',
         
         // Quick prompts
@@ -156,6 +219,15 @@ const strings: LocaleStrings = {    'en': {
         checkSecurityPrompt: '🔒 Проверить безопасность',
         createTestsPrompt: '🧪 Создать тесты',
         explainCodePrompt: '❓ Объяснить код',
+        templatesTitle: 'Шаблоны рабочей области:',
+        includeEditorContext: 'Приложить выделенный код и связанный с ним контекст',
+        contextIncluded: '📎 Контекст:',
+        mentionHint: 'Приложите контекст или наберите в сообщении @selection, @file:путь, @diagnostics или @workspace:запрос',
+        removeAttachment: 'Убрать',
+        selectFilesToAttach: 'Выберите файлы, которые нужно приложить к сообщению',
+        workspaceSearchPrompt: 'Текст для поиска по рабочей области',
+        noWorkspaceMatches: 'В рабочей области нет совпадений для "{0}".',
+        fileNotFound: 'Файл {0} не найден в рабочей области.',
         
         // Model selection
         selectModel: 'Выбрать модель',
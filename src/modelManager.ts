@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import { OllamaClient } from './ollama/client';
+import { OllamaError } from './ollama/errors';
+import { OllamaModel } from './ollama/types';
+import { isCancellationError } from './utils/retry';
+
+export function formatSize(bytes: number): string {
+    const gb = bytes / 1024 ** 3;
+    return gb >= 1 ? `${gb.toFixed(1)} GB` : `${(bytes / 1024 ** 2).toFixed(0)} MB`;
+}
+
+// Элемент дерева моделей
+class ModelTreeItem extends vscode.TreeItem {
+    constructor(public readonly model: OllamaModel, active: boolean) {
+        super(model.name, vscode.TreeItemCollapsibleState.None);
+        const details = model.details;
+        this.description = [
+            formatSize(model.size),
+            details?.family,
+            details?.parameter_size,
+            details?.quantization_level
+        ].filter(Boolean).join(' · ');
+        this.tooltip = new vscode.MarkdownString([
+            `**${model.name}**${active ? ' (active)' : ''}`,
+            '',
+            `- Size: ${formatSize(model.size)}`,
+            `- Family: ${details?.family || 'unknown'}`,
+            `- Parameters: ${details?.parameter_size || 'unknown'}`,
+            `- Quantization: ${details?.quantization_level || 'unknown'}`,
+            `- Modified: ${new Date(model.modified_at).toLocaleString()}`
+        ].join('\n'));
+        this.iconPath = new vscode.ThemeIcon(active ? 'pass-filled' : 'circle-outline');
+        this.contextValue = active ? 'ollamaModel.active' : 'ollamaModel';
+        this.command = {
+            command: 'ollama-code-fixer.showModelDetails',
+            title: 'Show Model Details',
+            arguments: [this]
+        };
+    }
+}
+
+/**
+ * Боковая панель локальных моделей из /api/tags: загрузка с прогрессом через /api/pull,
+ * удаление, просмотр сведений /api/show и выбор активной модели.
+ */
+export class ModelManagerProvider implements vscode.TreeDataProvider<ModelTreeItem>, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<ModelTreeItem | undefined | null | void> = new vscode.EventEmitter<ModelTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<ModelTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly client: OllamaClient) {
+        this._disposables.push(
+            vscode.window.registerTreeDataProvider('ollamaModelsView', this),
+            vscode.commands.registerCommand('ollama-code-fixer.refreshModels', () => this.refresh()),
+            vscode.commands.registerCommand('ollama-code-fixer.pullModel', (name?: string) => this.pullModel(name)),
+            vscode.commands.registerCommand('ollama-code-fixer.deleteModel', (item?: ModelTreeItem) => this.deleteModel(item)),
+            vscode.commands.registerCommand('ollama-code-fixer.showModelDetails', (item?: ModelTreeItem) => this.showModelDetails(item)),
+            vscode.commands.registerCommand('ollama-code-fixer.setActiveModel', (item?: ModelTreeItem) => this.setActiveModel(item)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('ollamaCodeFixer.modelName')) {
+                    this.refresh();
+                }
+            }),
+            // Модели у каждого сервера свои, поэтому список обновляется при смене профиля
+            client.endpoints.onDidChange(() => this.refresh()),
+            this._onDidChangeTreeData
+        );
+    }
+
+    getTreeItem(element: ModelTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: ModelTreeItem): Promise<ModelTreeItem[]> {
+        if (element) {
+            return [];
+        }
+        try {
+            const models = await this.client.listModels();
+            const active = this.client.defaultModel;
+            return models
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(model => new ModelTreeItem(model, model.name === active));
+        } catch (error) {
+            console.error('[OllamaCodeFixer] Failed to list models:', error);
+            return [];
+        }
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    // Выбор модели из установленных; используется и вне дерева, например из чата
+    public async pickModel(placeHolder: string): Promise<string | undefined> {
+        let models: OllamaModel[];
+        try {
+            models = await this.client.listModels();
+        } catch (error) {
+            console.error('[OllamaCodeFixer] Failed to list models:', error);
+            const message = error instanceof OllamaError ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to load the model list: ${message}`);
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            models.map(model => ({ label: model.name, description: formatSize(model.size) })),
+            { placeHolder }
+        );
+        return picked?.label;
+    }
+
+    private async pullModel(name?: string): Promise<void> {
+        const model = name || await vscode.window.showInputBox({
+            prompt: 'Name of the model to pull from the Ollama library',
+            placeHolder: 'codellama:7b'
+        });
+        if (!model) {
+            return;
+        }
+
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Pulling ${model}`,
+                cancellable: true
+            },
+            async (progress, token) => {
+                const abortController = new AbortController();
+                token.onCancellationRequested(() => abortController.abort());
+
+                // Общий прогресс суммируется по слоям; increment — прирост процента с прошлого отчёта
+                const layers = new Map<string, { completed: number; total: number }>();
+                let reported = 0;
+                try {
+                    await this.client.pullModel(model, update => {
+                        if (update.digest && update.total) {
+                            layers.set(update.digest, { completed: update.completed || 0, total: update.total });
+                            let completed = 0;
+                            let total = 0;
+                            for (const layer of layers.values()) {
+                                completed += layer.completed;
+                                total += layer.total;
+                            }
+                            const percent = Math.floor((completed / total) * 100);
+                            progress.report({
+                                increment: Math.max(0, percent - reported),
+                                message: `${update.status} ${percent}% (${formatSize(completed)} / ${formatSize(total)})`
+                            });
+                            reported = Math.max(reported, percent);
+                        } else {
+                            progress.report({ message: update.status });
+                        }
+                    }, abortController.signal);
+                } catch (error) {
+                    if (!isCancellationError(error)) {
+                        vscode.window.showErrorMessage(`Failed to pull ${model}: ${error instanceof Error ? error.message : String(error)}`);
+                    }
+                    return;
+                }
+
+                if (abortController.signal.aborted) {
+                    vscode.window.showInformationMessage(`Pulling ${model} cancelled.`);
+                    return;
+                }
+                vscode.window.showInformationMessage(`Model ${model} is ready.`);
+                this.refresh();
+            }
+        );
+    }
+
+    private async deleteModel(item?: ModelTreeItem): Promise<void> {
+        const model = item?.model.name || await this.pickModel('Select a model to delete');
+        if (!model) {
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(
+            `Delete model "${model}" from the Ollama server?`,
+            { modal: true },
+            'Delete'
+        );
+        if (choice !== 'Delete') {
+            return;
+        }
+
+        try {
+            await this.client.deleteModel(model);
+            vscode.window.showInformationMessage(`Model ${model} deleted.`);
+        } catch (error) {
+            const message = error instanceof OllamaError ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to delete ${model}: ${message}`);
+        }
+        this.refresh();
+    }
+
+    private async showModelDetails(item?: ModelTreeItem): Promise<void> {
+        const model = item?.model.name || await this.pickModel('Select a model');
+        if (!model) {
+            return;
+        }
+
+        try {
+            const info = await this.client.showModel(model);
+            const details = info.details;
+            const lines = [
+                `# ${model}`,
+                '',
+                `- Family: ${details?.family || 'unknown'}`,
+                `- Parameters: ${details?.parameter_size || 'unknown'}`,
+                `- Quantization: ${details?.quantization_level || 'unknown'}`,
+                `- Format: ${details?.format || 'unknown'}`
+            ];
+            if (info.capabilities && info.capabilities.length > 0) {
+                lines.push(`- Capabilities: ${info.capabilities.join(', ')}`);
+            }
+            if (info.parameters) {
+                lines.push('', '## Parameters', '', '```', info.parameters.trim(), '```');
+            }
+            if (info.template) {
+                lines.push('', '## Template', '', '```', info.template.trim(), '```');
+            }
+            if (info.system) {
+                lines.push('', '## System prompt', '', info.system.trim());
+            }
+            if (info.license) {
+                lines.push('', '## License', '', '```', info.license.trim(), '```');
+            }
+
+            const document = await vscode.workspace.openTextDocument({ content: lines.join('\n'), language: 'markdown' });
+            await vscode.window.showTextDocument(document, { preview: true });
+        } catch (error) {
+            const message = error instanceof OllamaError ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to load details for ${model}: ${message}`);
+        }
+    }
+
+    private async setActiveModel(item?: ModelTreeItem): Promise<void> {
+        const model = item?.model.name || await this.pickModel('Select the model to use');
+        if (!model) {
+            return;
+        }
+        await vscode.workspace.getConfiguration('ollamaCodeFixer').update('modelName', model, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage(`Ollama model set to ${model}.`);
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import { getSamplingOptions } from './ollama/client';
+import { OllamaOptions } from './ollama/types';
+import { EditorTracker } from './utils/editorTracker';
+
+export type ModelTask = 'fix' | 'chat' | 'explain' | 'tests' | 'docs' | 'review' | 'commitMessage';
+
+const TASK_LABELS: Record<ModelTask, string> = {
+    fix: 'Fix',
+    chat: 'Chat',
+    explain: 'Explain',
+    tests: 'Tests',
+    docs: 'Docs',
+    review: 'Review',
+    commitMessage: 'Commit message'
+};
+
+export interface ModelRoute {
+    // Без task или languages правило подходит для любой задачи или любого языка
+    task?: ModelTask;
+    languages?: string[];
+    model: string;
+    profile?: string;
+}
+
+// Профиль задаёт только те параметры, которые отличаются от общих настроек
+export interface SamplingProfile {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    repeatPenalty?: number;
+    presencePenalty?: number;
+    frequencyPenalty?: number;
+    maxTokens?: number;
+    contextLength?: number;
+    seed?: number;
+    stopSequences?: string[];
+}
+
+export interface ResolvedModel {
+    model: string;
+    options: OllamaOptions;
+    // Правило, по которому выбрана модель; undefined — использована modelName
+    route?: ModelRoute;
+}
+
+const PROFILE_OPTIONS: { [K in keyof SamplingProfile]-?: keyof OllamaOptions } = {
+    temperature: 'temperature',
+    topP: 'top_p',
+    topK: 'top_k',
+    repeatPenalty: 'repeat_penalty',
+    presencePenalty: 'presence_penalty',
+    frequencyPenalty: 'frequency_penalty',
+    maxTokens: 'num_predict',
+    contextLength: 'num_ctx',
+    seed: 'seed',
+    stopSequences: 'stop'
+};
+
+// Правило с задачей и языком точнее правила только с задачей, а оно точнее правила только с языком
+function specificity(route: ModelRoute): number {
+    return (route.task ? 2 : 0) + (route.languages && route.languages.length > 0 ? 1 : 0);
+}
+
+function matches(route: ModelRoute, task: ModelTask, languageId?: string): boolean {
+    if (!route.model || (route.task && route.task !== task)) {
+        return false;
+    }
+    if (route.languages && route.languages.length > 0) {
+        return !!languageId && route.languages.includes(languageId);
+    }
+    return true;
+}
+
+export function applySamplingProfile(options: OllamaOptions, profile: SamplingProfile): OllamaOptions {
+    const result: OllamaOptions = { ...options };
+    for (const key of Object.keys(PROFILE_OPTIONS) as (keyof SamplingProfile)[]) {
+        const value = profile[key];
+        if (value !== undefined) {
+            (result as Record<string, unknown>)[PROFILE_OPTIONS[key]] = value;
+        }
+    }
+    // Как и в общих настройках, отрицательный seed означает случайный
+    if (result.seed !== undefined && result.seed < 0) {
+        delete result.seed;
+    }
+    return result;
+}
+
+/**
+ * Выбирает модель и параметры генерации для задачи по правилам modelRoutes.
+ * Из подходящих правил берётся самое точное, при равенстве — первое в списке.
+ */
+export function resolveModel(task: ModelTask, languageId?: string): ResolvedModel {
+    const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+    const routes = config.get<ModelRoute[]>('modelRoutes', []);
+    const profiles = config.get<Record<string, SamplingProfile>>('samplingProfiles', {});
+
+    let route: ModelRoute | undefined;
+    for (const candidate of routes) {
+        if (matches(candidate, task, languageId) && (!route || specificity(candidate) > specificity(route))) {
+            route = candidate;
+        }
+    }
+
+    let options = getSamplingOptions();
+    // Стоп-последовательности (по умолчанию с "```") нужны только промпту исправления
+    if (task === 'fix') {
+        options.stop = config.get<string[]>('stopSequences', ['[/INST]', '</s>', '```']);
+    }
+    if (route?.profile) {
+        const profile = profiles[route.profile];
+        if (profile) {
+            options = applySamplingProfile(options, profile);
+        } else {
+            console.warn(`[OllamaCodeFixer] Sampling profile "${route.profile}" not found, using default settings.`);
+        }
+    }
+
+    return {
+        model: route?.model || config.get<string>('modelName', 'llama2'),
+        options,
+        route
+    };
+}
+
+// Показывает в строке состояния модель, которая будет исправлять код в текущем редакторе
+export class ModelStatusBar implements vscode.Disposable {
+    private readonly _item: vscode.StatusBarItem;
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this._item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+        this._item.command = {
+            command: 'workbench.action.openSettings',
+            title: 'Configure Model Routing',
+            arguments: ['ollamaCodeFixer.modelRoutes']
+        };
+        this._disposables.push(
+            this._item,
+            vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('ollamaCodeFixer')) {
+                    this.update();
+                }
+            })
+        );
+        this.update();
+    }
+
+    private update(): void {
+        const languageId = EditorTracker.getInstance().lastEditor?.document.languageId;
+        const fix = resolveModel('fix', languageId);
+
+        this._item.text = `$(hubot) ${fix.model}`;
+        const tooltip = new vscode.MarkdownString(`**Ollama models${languageId ? ` for ${languageId}` : ''}**\n\n`);
+        for (const task of Object.keys(TASK_LABELS) as ModelTask[]) {
+            const resolved = resolveModel(task, languageId);
+            const profile = resolved.route?.profile ? ` (${resolved.route.profile})` : '';
+            tooltip.appendMarkdown(`- ${TASK_LABELS[task]}: \`${resolved.model}\`${profile}\n`);
+        }
+        tooltip.appendMarkdown('\nClick to configure model routing.');
+        this._item.tooltip = tooltip;
+        this._item.show();
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
@@ -0,0 +1,367 @@
+import * as vscode from 'vscode';
+import axios, { AxiosRequestConfig } from 'axios';
+import { RetryManager, RetryOptions } from '../utils/retry';
+import { Logger } from '../utils/logger';
+import { OllamaStreamError, toOllamaError } from './errors';
+import { EndpointManager, EndpointProfile, isEndpointFailure } from './endpoints';
+import {
+    ChatRequest,
+    ChatResponse,
+    GenerateRequest,
+    GenerateResponse,
+    OllamaModel,
+    OllamaOptions,
+    PsResponse,
+    PullProgress,
+    RunningModel,
+    ShowResponse,
+    TagsResponse,
+    VersionResponse
+} from './types';
+
+/**
+ * Параметры генерации из настроек расширения, общие для всех задач. stopSequences сюда
+ * не входят: они рассчитаны на промпт исправления и обрывают ответы с блоками кода.
+ */
+export function getSamplingOptions(): OllamaOptions {
+    const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+    const options: OllamaOptions = {
+        temperature: config.get<number>('temperature', 0.7),
+        top_p: config.get<number>('topP', 0.9),
+        top_k: config.get<number>('topK', 40),
+        repeat_penalty: config.get<number>('repeatPenalty', 1.1),
+        presence_penalty: config.get<number>('presencePenalty', 0),
+        frequency_penalty: config.get<number>('frequencyPenalty', 0),
+        mirostat: config.get<number>('mirostat', 0),
+        mirostat_tau: config.get<number>('mirostatTau', 5.0),
+        mirostat_eta: config.get<number>('mirostatEta', 0.1),
+        num_ctx: config.get<number>('contextLength', 4096),
+        num_predict: config.get<number>('maxTokens', 2048)
+    };
+    // -1 означает случайный seed, поэтому его не передаём
+    const seed = config.get<number>('seed', -1);
+    if (seed >= 0) {
+        options.seed = seed;
+    }
+    return options;
+}
+
+// Длительность последнего запроса к модели; для потоков — время до начала ответа
+export interface RequestTiming {
+    endpoint: string;
+    url: string;
+    model: string;
+    durationMs: number;
+    completedAt: number;
+}
+
+// Единая точка доступа к Ollama API для исправления кода, чата и управления моделями
+export class OllamaClient implements vscode.Disposable {
+    private readonly logger = Logger.getInstance();
+    private _lastRequest: RequestTiming | undefined;
+    private readonly _onDidCompleteRequest = new vscode.EventEmitter<RequestTiming>();
+    readonly onDidCompleteRequest: vscode.Event<RequestTiming> = this._onDidCompleteRequest.event;
+
+    constructor(
+        private readonly retryManager: RetryManager = new RetryManager(),
+        public readonly endpoints: EndpointManager = new EndpointManager()
+    ) {}
+
+    public get baseUrl(): string {
+        return this.endpoints.current.url;
+    }
+
+    public get lastRequest(): RequestTiming | undefined {
+        return this._lastRequest;
+    }
+
+    public get defaultModel(): string {
+        return vscode.workspace.getConfiguration('ollamaCodeFixer').get<string>('modelName', 'llama2');
+    }
+
+    // Проверка доступности сервера: корневой адрес отвечает "Ollama is running"
+    public async ping(signal?: AbortSignal): Promise<void> {
+        // Явная проверка идёт мимо размыкателя цепи и при успехе замыкает её
+        const profile = this.endpoints.current;
+        await this.send<string>(profile, { method: 'GET', url: '/', timeout: 5000, signal }, undefined, {
+            maxRetries: 0,
+            circuitBreakerThreshold: 0
+        });
+        this.retryManager.resetCircuit(profile.url);
+    }
+
+    /**
+     * Опрашивает все профили одной попыткой без повторов и обновляет их состояние.
+     * Если выбранный пользователем профиль снова доступен, запросы возвращаются на него.
+     */
+    public async checkEndpoints(): Promise<void> {
+        await Promise.all(this.endpoints.profiles.map(async profile => {
+            try {
+                await axios.request({ baseURL: profile.url, method: 'GET', url: '/', timeout: 5000 });
+                this.retryManager.resetCircuit(profile.url);
+                this.endpoints.markOnline(profile);
+            } catch (error) {
+                this.endpoints.markOffline(profile, toOllamaError(error, profile.url));
+            }
+        }));
+        this.endpoints.restoreSelected();
+    }
+
+    public async version(signal?: AbortSignal): Promise<string> {
+        const response = await this.request<VersionResponse>({ method: 'GET', url: '/api/version', signal });
+        return response.version;
+    }
+
+    public async generate(request: GenerateRequest, signal?: AbortSignal): Promise<GenerateResponse> {
+        return this.request<GenerateResponse>({
+            method: 'POST',
+            url: '/api/generate',
+            data: { ...request, stream: false },
+            signal
+        }, request.model);
+    }
+
+    /**
+     * Тихий /api/generate для дополнений при наборе: только текущий профиль, без повторов,
+     * без переключения профилей с уведомлением и без замера времени в строке состояния.
+     */
+    public async complete(request: GenerateRequest, signal?: AbortSignal): Promise<GenerateResponse> {
+        return this.send<GenerateResponse>(this.endpoints.current, {
+            method: 'POST',
+            url: '/api/generate',
+            data: { ...request, stream: false },
+            signal
+        }, request.model, { maxRetries: 0 }, false);
+    }
+
+    public async chat(request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+        return this.request<ChatResponse>({
+            method: 'POST',
+            url: '/api/chat',
+            data: { ...request, stream: false },
+            signal
+        }, request.model);
+    }
+
+    /**
+     * Потоковый /api/chat: каждый фрагмент передаётся в onChunk.
+     * Возвращает накопленный текст; при отмене — то, что успели получить.
+     */
+    public async chatStream(
+        request: ChatRequest,
+        onChunk: (chunk: ChatResponse) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        let content = '';
+        await this.stream<ChatResponse>({
+            method: 'POST',
+            url: '/api/chat',
+            data: { ...request, stream: true },
+            signal
+        }, chunk => {
+            content += chunk.message?.content || '';
+            onChunk(chunk);
+        }, request.model);
+        return content;
+    }
+
+    public async listModels(signal?: AbortSignal): Promise<OllamaModel[]> {
+        const response = await this.request<TagsResponse>({ method: 'GET', url: '/api/tags', signal });
+        return response.models || [];
+    }
+
+    public async showModel(model: string, signal?: AbortSignal): Promise<ShowResponse> {
+        return this.request<ShowResponse>({
+            method: 'POST',
+            url: '/api/show',
+            data: { model },
+            signal
+        }, model);
+    }
+
+    public async pullModel(
+        model: string,
+        onProgress: (progress: PullProgress) => void,
+        signal?: AbortSignal
+    ): Promise<void> {
+        await this.stream<PullProgress>({
+            method: 'POST',
+            url: '/api/pull',
+            data: { model, stream: true },
+            // Загрузка модели может идти долго, таймаут запроса здесь не применяем
+            timeout: 0,
+            signal
+        }, onProgress, model);
+    }
+
+    public async deleteModel(model: string, signal?: AbortSignal): Promise<void> {
+        await this.request<void>({
+            method: 'DELETE',
+            url: '/api/delete',
+            data: { model },
+            signal
+        }, model);
+    }
+
+    public async listRunningModels(signal?: AbortSignal): Promise<RunningModel[]> {
+        const response = await this.request<PsResponse>({ method: 'GET', url: '/api/ps', signal });
+        return response.models || [];
+    }
+
+    private buildConfig(profile: EndpointProfile, config: AxiosRequestConfig): AxiosRequestConfig {
+        return {
+            baseURL: profile.url,
+            timeout: vscode.workspace.getConfiguration('ollamaCodeFixer').get<number>('requestTimeout', 90000),
+            ...config
+        };
+    }
+
+    /**
+     * Выполняет операцию на текущем профиле. Если после всех повторов сервер недоступен,
+     * пробует следующие профили, и успешный становится текущим для последующих запросов.
+     */
+    private async withFailover<T>(
+        operation: (profile: EndpointProfile) => Promise<T>,
+        signal?: AbortSignal
+    ): Promise<T> {
+        let lastError: unknown;
+        for (const profile of this.endpoints.candidates()) {
+            try {
+                const result = await operation(profile);
+                this.endpoints.markOnline(profile);
+                this.endpoints.failover(profile);
+                return result;
+            } catch (error) {
+                if (signal?.aborted || !isEndpointFailure(error)) {
+                    throw error;
+                }
+                this.endpoints.markOffline(profile, error);
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+
+    private async send<T>(
+        profile: EndpointProfile,
+        config: AxiosRequestConfig,
+        model?: string,
+        retry?: Partial<RetryOptions>,
+        recordTiming = true
+    ): Promise<T> {
+        const requestConfig = this.buildConfig(profile, config);
+        this.logger.debug(`Ollama request: ${requestConfig.method} ${requestConfig.baseURL}${requestConfig.url}`, requestConfig.data);
+        const startedAt = Date.now();
+        try {
+            const response = await this.retryManager.withRetry(
+                () => axios.request<T>(requestConfig),
+                { ...retry, signal: config.signal as AbortSignal | undefined, circuitKey: profile.url }
+            );
+            if (recordTiming) {
+                this.recordTiming(profile, requestConfig, startedAt, model);
+            }
+            return response.data;
+        } catch (error) {
+            throw toOllamaError(error, profile.url, model);
+        }
+    }
+
+    // Служебные запросы без модели (статус, список моделей) в замер не попадают
+    private recordTiming(profile: EndpointProfile, config: AxiosRequestConfig, startedAt: number, model?: string): void {
+        if (!model) {
+            return;
+        }
+        this._lastRequest = {
+            endpoint: profile.name,
+            url: config.url || '',
+            model,
+            durationMs: Date.now() - startedAt,
+            completedAt: Date.now()
+        };
+        this._onDidCompleteRequest.fire(this._lastRequest);
+    }
+
+    private async request<T>(config: AxiosRequestConfig, model?: string): Promise<T> {
+        return this.withFailover(
+            profile => this.send<T>(profile, config, model),
+            config.signal as AbortSignal | undefined
+        );
+    }
+
+    // Повторяется только установка соединения, сам поток после начала не перезапускается
+    private async stream<T>(
+        config: AxiosRequestConfig,
+        onChunk: (chunk: T) => void,
+        model?: string
+    ): Promise<void> {
+        const signal = config.signal as AbortSignal | undefined;
+        let baseUrl = this.baseUrl;
+
+        try {
+            const response = await this.withFailover(async profile => {
+                baseUrl = profile.url;
+                const requestConfig = this.buildConfig(profile, { ...config, responseType: 'stream' });
+                this.logger.debug(`Ollama stream: ${requestConfig.method} ${requestConfig.baseURL}${requestConfig.url}`, requestConfig.data);
+                const startedAt = Date.now();
+                try {
+                    const response = await this.retryManager.withRetry(
+                        () => axios.request(requestConfig),
+                        { signal, circuitKey: profile.url }
+                    );
+                    this.recordTiming(profile, requestConfig, startedAt, model);
+                    return response;
+                } catch (error) {
+                    throw toOllamaError(error, profile.url, model);
+                }
+            }, signal);
+            await readNdjson<T>(response.data, onChunk);
+        } catch (error) {
+            // Остановка пользователем после начала потока не считается ошибкой
+            if (signal?.aborted) {
+                return;
+            }
+            throw toOllamaError(error, baseUrl, model);
+        }
+    }
+
+    dispose() {
+        this._onDidCompleteRequest.dispose();
+        this.endpoints.dispose();
+        this.retryManager.dispose();
+    }
+}
+
+// Разбирает NDJSON-поток построчно; строка {"error": ...} превращается в OllamaStreamError
+async function readNdjson<T>(
+    stream: AsyncIterable<Buffer>,
+    onChunk: (chunk: T) => void
+): Promise<void> {
+    let buffer = '';
+    // Многобайтовый символ может прийти разрезанным между двумя фрагментами
+    const decoder = new TextDecoder('utf-8');
+
+    const handleLine = (line: string): boolean => {
+        if (!line.trim()) {
+            return false;
+        }
+        const chunk = JSON.parse(line) as T & { error?: string; done?: boolean };
+        if (chunk.error) {
+            throw new OllamaStreamError(chunk.error);
+        }
+        onChunk(chunk);
+        return chunk.done === true;
+    };
+
+    for await (const data of stream) {
+        buffer += decoder.decode(data, { stream: true });
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.slice(0, newlineIndex);
+            buffer = buffer.slice(newlineIndex + 1);
+            if (handleLine(line)) {
+                return;
+            }
+        }
+    }
+    handleLine(buffer + decoder.decode());
+}
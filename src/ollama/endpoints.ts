@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import { Logger } from '../utils/logger';
+import { OllamaConnectionError, OllamaResponseError, OllamaTimeoutError } from './errors';
+
+export interface EndpointProfile {
+    name: string;
+    url: string;
+}
+
+export type EndpointStatus = 'unknown' | 'online' | 'offline';
+
+export interface EndpointHealth {
+    status: EndpointStatus;
+    checkedAt?: number;
+    error?: string;
+}
+
+export const DEFAULT_BASE_URL = 'http://localhost:11434';
+
+/**
+ * Приводит ollamaApiUrl к базовому адресу: убирает завершающие слэши и путь /api/...,
+ * который часто остаётся в старых настройках (например, .../api/generate).
+ */
+export function normalizeBaseUrl(url: string | undefined): string {
+    if (!url) {
+        return DEFAULT_BASE_URL;
+    }
+    try {
+        const parsed = new URL(url.trim());
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+            throw new Error(`Invalid URL protocol: ${parsed.protocol}`);
+        }
+        const pathname = parsed.pathname.replace(/\/api(\/.*)?$/, '').replace(/\/+$/, '');
+        return `${parsed.protocol}//${parsed.host}${pathname}`;
+    } catch (error) {
+        Logger.getInstance().error(`Invalid ollamaApiUrl "${url}", using ${DEFAULT_BASE_URL}`, error);
+        return DEFAULT_BASE_URL;
+    }
+}
+
+// Имя профиля, который строится из ollamaApiUrl, когда endpoints не заданы
+export const DEFAULT_ENDPOINT_NAME = 'Default';
+
+// Переключаться на другой профиль имеет смысл только когда недоступен сам сервер
+export function isEndpointFailure(error: unknown): boolean {
+    if (error instanceof OllamaConnectionError || error instanceof OllamaTimeoutError) {
+        return true;
+    }
+    return error instanceof OllamaResponseError && error.status >= 502;
+}
+
+/**
+ * Именованные профили адресов Ollama и их состояние. Текущий профиль берётся из
+ * activeEndpoint, а при сбое временно заменяется следующим доступным до смены настроек.
+ */
+export class EndpointManager implements vscode.Disposable {
+    private readonly _health = new Map<string, EndpointHealth>();
+    private _failoverName: string | undefined;
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+    private readonly _subscription: vscode.Disposable;
+
+    constructor() {
+        this._subscription = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('ollamaCodeFixer.endpoints')
+                || event.affectsConfiguration('ollamaCodeFixer.activeEndpoint')
+                || event.affectsConfiguration('ollamaCodeFixer.ollamaApiUrl')) {
+                this._failoverName = undefined;
+                this._health.clear();
+                this._onDidChange.fire();
+            }
+        });
+    }
+
+    public get profiles(): EndpointProfile[] {
+        const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+        const configured = config.get<EndpointProfile[]>('endpoints', [])
+            .filter(profile => profile && profile.name && profile.url)
+            .map(profile => ({ name: profile.name, url: normalizeBaseUrl(profile.url) }));
+        if (configured.length > 0) {
+            return configured;
+        }
+        return [{ name: DEFAULT_ENDPOINT_NAME, url: normalizeBaseUrl(config.get<string>('ollamaApiUrl')) }];
+    }
+
+    // Профиль, выбранный пользователем; при неизвестном имени — первый в списке
+    public get selected(): EndpointProfile {
+        const profiles = this.profiles;
+        const name = vscode.workspace.getConfiguration('ollamaCodeFixer').get<string>('activeEndpoint', '');
+        return profiles.find(profile => profile.name === name) || profiles[0];
+    }
+
+    // Профиль, на который сейчас уходят запросы: выбранный или тот, на который переключились при сбое
+    public get current(): EndpointProfile {
+        if (this._failoverName) {
+            const failover = this.profiles.find(profile => profile.name === this._failoverName);
+            if (failover) {
+                return failover;
+            }
+        }
+        return this.selected;
+    }
+
+    public get isFailedOver(): boolean {
+        return this.current.name !== this.selected.name;
+    }
+
+    public get failoverEnabled(): boolean {
+        return vscode.workspace.getConfiguration('ollamaCodeFixer').get<boolean>('endpointFailover', true);
+    }
+
+    public getHealth(name: string): EndpointHealth {
+        return this._health.get(name) || { status: 'unknown' };
+    }
+
+    /**
+     * Порядок, в котором пробовать профили: текущий, затем остальные по списку после него.
+     * Заведомо недоступные уходят в конец, но не исключаются: статус мог устареть.
+     */
+    public candidates(): EndpointProfile[] {
+        const current = this.current;
+        if (!this.failoverEnabled) {
+            return [current];
+        }
+        const profiles = this.profiles;
+        const start = Math.max(0, profiles.findIndex(profile => profile.name === current.name));
+        const ordered = [...profiles.slice(start), ...profiles.slice(0, start)];
+        const rest = ordered.slice(1);
+        return [
+            current,
+            ...rest.filter(profile => this.getHealth(profile.name).status !== 'offline'),
+            ...rest.filter(profile => this.getHealth(profile.name).status === 'offline')
+        ];
+    }
+
+    public markOnline(profile: EndpointProfile): void {
+        this.setHealth(profile, { status: 'online', checkedAt: Date.now() });
+    }
+
+    public markOffline(profile: EndpointProfile, error?: unknown): void {
+        this.setHealth(profile, {
+            status: 'offline',
+            checkedAt: Date.now(),
+            error: error instanceof Error ? error.message : undefined
+        });
+    }
+
+    // Запрос прошёл через другой профиль: дальше отправляем запросы туда же
+    public failover(profile: EndpointProfile): void {
+        const previous = this.current;
+        if (previous.name === profile.name) {
+            return;
+        }
+        this._failoverName = profile.name === this.selected.name ? undefined : profile.name;
+        console.warn(`[OllamaCodeFixer] Endpoint "${previous.name}" is unavailable, switched to "${profile.name}".`);
+        vscode.window.showWarningMessage(`Ollama endpoint "${previous.name}" is unavailable. Requests now go to "${profile.name}".`);
+        this._onDidChange.fire();
+    }
+
+    // Выбранный профиль снова доступен — возвращаемся к нему
+    public restoreSelected(): void {
+        if (this._failoverName && this.getHealth(this.selected.name).status === 'online') {
+            console.log(`[OllamaCodeFixer] Endpoint "${this.selected.name}" is back online.`);
+            this._failoverName = undefined;
+            this._onDidChange.fire();
+        }
+    }
+
+    public async select(name: string): Promise<void> {
+        await vscode.workspace.getConfiguration('ollamaCodeFixer').update('activeEndpoint', name, vscode.ConfigurationTarget.Global);
+    }
+
+    private setHealth(profile: EndpointProfile, health: EndpointHealth): void {
+        const previous = this._health.get(profile.name);
+        this._health.set(profile.name, health);
+        if (previous?.status !== health.status) {
+            this._onDidChange.fire();
+        }
+    }
+
+    dispose() {
+        this._subscription.dispose();
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,96 @@
+import axios, { AxiosError } from 'axios';
+import { getLocaleStrings } from '../localization';
+import { CircuitOpenError, RequestCancelledError } from '../utils/retry';
+
+// Базовый класс для всех ошибок обращения к Ollama; message готов для показа пользователю
+export class OllamaError extends Error {
+    constructor(message: string, public readonly cause?: unknown) {
+        super(message);
+        this.name = 'OllamaError';
+    }
+}
+
+// Сервер недоступен: отказ в соединении, DNS, сброс соединения
+export class OllamaConnectionError extends OllamaError {
+    constructor(public readonly baseUrl: string, cause?: unknown) {
+        const strings = getLocaleStrings();
+        super(`${strings.networkError} (${baseUrl}). ${strings.checkConnection}`, cause);
+        this.name = 'OllamaConnectionError';
+    }
+}
+
+export class OllamaTimeoutError extends OllamaError {
+    constructor(cause?: unknown) {
+        super(getLocaleStrings().serverTimeout, cause);
+        this.name = 'OllamaTimeoutError';
+    }
+}
+
+// Сервер ответил кодом ошибки
+export class OllamaResponseError extends OllamaError {
+    constructor(public readonly status: number, public readonly detail: string, cause?: unknown) {
+        super(getLocaleStrings().ollamaApiError.replace('{0}', `${status}${detail ? ` ${detail}` : ''}`), cause);
+        this.name = 'OllamaResponseError';
+    }
+}
+
+export class OllamaModelNotFoundError extends OllamaResponseError {
+    constructor(public readonly model: string, cause?: unknown) {
+        super(404, getLocaleStrings().modelNotInstalled.replace('{0}', model), cause);
+        this.name = 'OllamaModelNotFoundError';
+    }
+}
+
+// Ошибка, пришедшая внутри NDJSON-потока ({"error": "..."})
+export class OllamaStreamError extends OllamaError {
+    constructor(detail: string) {
+        super(getLocaleStrings().modelError.replace('{0}', detail));
+        this.name = 'OllamaStreamError';
+    }
+}
+
+function extractDetail(data: unknown): string {
+    if (!data) {
+        return '';
+    }
+    // При responseType: 'stream' тело ошибки приходит потоком и не сериализуется
+    if (typeof (data as { pipe?: unknown }).pipe === 'function') {
+        return '';
+    }
+    if (typeof data === 'string') {
+        return data;
+    }
+    const error = (data as { error?: unknown }).error;
+    return typeof error === 'string' ? error : JSON.stringify(data);
+}
+
+// Переводит ошибку axios в типизированную ошибку Ollama; отмена пробрасывается как RequestCancelledError
+export function toOllamaError(error: unknown, baseUrl: string, model?: string): Error {
+    if (error instanceof OllamaError || error instanceof RequestCancelledError) {
+        return error;
+    }
+    if (axios.isCancel(error)) {
+        return new RequestCancelledError();
+    }
+    // Разомкнутая цепь означает, что сервер недавно был недоступен: это тоже ошибка соединения
+    if (error instanceof CircuitOpenError) {
+        return new OllamaConnectionError(baseUrl, error);
+    }
+    if (error instanceof AxiosError) {
+        if (error.response) {
+            const detail = extractDetail(error.response.data);
+            if (error.response.status === 404 && model && /not found/i.test(detail)) {
+                return new OllamaModelNotFoundError(model, error);
+            }
+            return new OllamaResponseError(error.response.status, detail, error);
+        }
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+            return new OllamaTimeoutError(error);
+        }
+        return new OllamaConnectionError(baseUrl, error);
+    }
+    if (error instanceof Error) {
+        return new OllamaError(error.message, error);
+    }
+    return new OllamaError(getLocaleStrings().unknownError, error);
+}
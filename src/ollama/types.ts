@@ -0,0 +1,131 @@
+// Типы запросов и ответов Ollama REST API (https://github.com/ollama/ollama/blob/main/docs/api.md)
+
+export interface OllamaOptions {
+    temperature?: number;
+    top_p?: number;
+    top_k?: number;
+    repeat_penalty?: number;
+    presence_penalty?: number;
+    frequency_penalty?: number;
+    mirostat?: number;
+    mirostat_tau?: number;
+    mirostat_eta?: number;
+    num_ctx?: number;
+    num_predict?: number;
+    stop?: string[];
+    seed?: number;
+}
+
+// Статистика, которую Ollama возвращает в последнем фрагменте ответа
+export interface OllamaMetrics {
+    total_duration?: number;
+    load_duration?: number;
+    prompt_eval_count?: number;
+    prompt_eval_duration?: number;
+    eval_count?: number;
+    eval_duration?: number;
+}
+
+export interface GenerateRequest {
+    model: string;
+    prompt: string;
+    suffix?: string;
+    system?: string;
+    template?: string;
+    raw?: boolean;
+    format?: 'json';
+    options?: OllamaOptions;
+    keep_alive?: string | number;
+}
+
+export interface GenerateResponse extends OllamaMetrics {
+    model: string;
+    created_at: string;
+    response: string;
+    done: boolean;
+    done_reason?: string;
+    context?: number[];
+}
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatRequestMessage {
+    role: ChatRole;
+    content: string;
+    images?: string[];
+}
+
+export interface ChatRequest {
+    model: string;
+    messages: ChatRequestMessage[];
+    format?: 'json';
+    options?: OllamaOptions;
+    keep_alive?: string | number;
+}
+
+export interface ChatResponse extends OllamaMetrics {
+    model: string;
+    created_at: string;
+    message?: ChatRequestMessage;
+    done: boolean;
+    done_reason?: string;
+}
+
+export interface ModelDetails {
+    parent_model?: string;
+    format?: string;
+    family?: string;
+    families?: string[] | null;
+    parameter_size?: string;
+    quantization_level?: string;
+}
+
+export interface OllamaModel {
+    name: string;
+    model: string;
+    modified_at: string;
+    size: number;
+    digest: string;
+    details?: ModelDetails;
+}
+
+export interface TagsResponse {
+    models: OllamaModel[];
+}
+
+export interface ShowResponse {
+    license?: string;
+    modelfile?: string;
+    parameters?: string;
+    template?: string;
+    system?: string;
+    details?: ModelDetails;
+    model_info?: Record<string, unknown>;
+    capabilities?: string[];
+    modified_at?: string;
+}
+
+export interface PullProgress {
+    status: string;
+    digest?: string;
+    total?: number;
+    completed?: number;
+}
+
+export interface RunningModel {
+    name: string;
+    model: string;
+    size: number;
+    digest: string;
+    details?: ModelDetails;
+    expires_at: string;
+    size_vram: number;
+}
+
+export interface PsResponse {
+    models: RunningModel[];
+}
+
+export interface VersionResponse {
+    version: string;
+}
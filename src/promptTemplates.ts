@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+export const PROMPTS_FOLDER = '.ollamafixer/prompts';
+
+export type PromptTask = 'fix' | 'chat';
+
+export interface PromptTemplate {
+    name: string;
+    description?: string;
+    task: PromptTask;
+    // Пустой список означает, что шаблон подходит для любого языка
+    languages: string[];
+    body: string;
+    source: vscode.Uri;
+}
+
+// Значения для подстановки в шаблон; незаполненные переменные заменяются пустой строкой
+export interface PromptVariables {
+    selection?: string;
+    fileName?: string;
+    language?: string;
+    diagnostics?: string;
+    surroundingCode?: string;
+    // Контекст проекта: импорты, охватывающий символ, определения
+    context?: string;
+    userInput?: string;
+}
+
+const VARIABLE_NAMES: (keyof PromptVariables)[] = [
+    'selection',
+    'fileName',
+    'language',
+    'diagnostics',
+    'surroundingCode',
+    'context',
+    'userInput'
+];
+
+export function renderTemplate(body: string, variables: PromptVariables): string {
+    return body.replace(/\{(\w+)\}/g, (match, name: string) => {
+        if (!VARIABLE_NAMES.includes(name as keyof PromptVariables)) {
+            return match;
+        }
+        return variables[name as keyof PromptVariables] ?? '';
+    });
+}
+
+/**
+ * Разбирает файл шаблона. Необязательный заголовок между строками "---" задаёт
+ * name, description, task (fix или chat) и languages через запятую.
+ */
+export function parseTemplate(content: string, source: vscode.Uri): PromptTemplate {
+    const template: PromptTemplate = {
+        name: path.basename(source.path).replace(/\.[^.]+$/, ''),
+        task: 'chat',
+        languages: [],
+        body: content,
+        source
+    };
+
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (!match) {
+        return template;
+    }
+
+    template.body = content.slice(match[0].length);
+    for (const line of match[1].split(/\r?\n/)) {
+        const separator = line.indexOf(':');
+        if (separator === -1) {
+            continue;
+        }
+        const key = line.slice(0, separator).trim();
+        const value = line.slice(separator + 1).trim();
+        switch (key) {
+            case 'name':
+                template.name = value || template.name;
+                break;
+            case 'description':
+                template.description = value;
+                break;
+            case 'task':
+                template.task = value === 'fix' ? 'fix' : 'chat';
+                break;
+            case 'languages':
+                template.languages = value.split(',').map(language => language.trim()).filter(Boolean);
+                break;
+        }
+    }
+    return template;
+}
+
+// Шаблоны промптов из папки .ollamafixer/prompts в каждой папке рабочей области
+export class PromptTemplateStore implements vscode.Disposable {
+    private static instance: PromptTemplateStore;
+    private _templates: PromptTemplate[] = [];
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    private readonly _disposables: vscode.Disposable[] = [];
+    readonly onDidChange = this._onDidChange.event;
+
+    private constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${PROMPTS_FOLDER}/*`);
+        this._disposables.push(
+            watcher,
+            watcher.onDidCreate(() => this.reload()),
+            watcher.onDidChange(() => this.reload()),
+            watcher.onDidDelete(() => this.reload()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload()),
+            this._onDidChange
+        );
+        this.reload();
+    }
+
+    public static getInstance(): PromptTemplateStore {
+        if (!PromptTemplateStore.instance) {
+            PromptTemplateStore.instance = new PromptTemplateStore();
+        }
+        return PromptTemplateStore.instance;
+    }
+
+    public getTemplates(task: PromptTask, languageId?: string): PromptTemplate[] {
+        return this._templates.filter(template =>
+            template.task === task &&
+            (!languageId || template.languages.length === 0 || template.languages.includes(languageId))
+        );
+    }
+
+    public find(task: PromptTask, name: string): PromptTemplate | undefined {
+        return this._templates.find(template => template.task === task && template.name === name);
+    }
+
+    // Шаблон исправления, выбранный для языка в настройке fixTemplates ("*" — для всех языков)
+    public getFixTemplate(languageId: string): PromptTemplate | undefined {
+        const mapping = vscode.workspace.getConfiguration('ollamaCodeFixer').get<Record<string, string>>('fixTemplates', {});
+        const name = mapping[languageId] || mapping['*'];
+        if (!name) {
+            return undefined;
+        }
+        const template = this.getTemplates('fix', languageId).find(t => t.name === name);
+        if (!template) {
+            console.warn(`[OllamaCodeFixer] Fix template "${name}" not found for ${languageId}, using promptStructure.`);
+        }
+        return template;
+    }
+
+    public async reload(): Promise<void> {
+        const templates: PromptTemplate[] = [];
+        const files = await vscode.workspace.findFiles(`${PROMPTS_FOLDER}/*.{md,txt,prompt}`);
+        for (const file of files) {
+            try {
+                const content = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+                templates.push(parseTemplate(content, file));
+            } catch (error) {
+                console.error(`[OllamaCodeFixer] Failed to read prompt template ${file.toString()}:`, error);
+            }
+        }
+        this._templates = templates.sort((a, b) => a.name.localeCompare(b.name));
+        this._onDidChange.fire();
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
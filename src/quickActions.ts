@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { OllamaCodeFixerChatProvider } from './chatProvider';
+import { findEnclosingSymbol } from './fixer';
+import { ModelTask } from './modelRouting';
+
+interface QuickAction {
+    command: string;
+    prompt: string;
+    task: ModelTask;
+}
+
+// Те же действия, что и быстрые подсказки чата, но сразу с кодом из редактора
+const QUICK_ACTIONS: QuickAction[] = [
+    {
+        command: 'ollama-code-fixer.explainSelection',
+        prompt: 'Explain what this code does, step by step. Point out anything non-obvious.',
+        task: 'explain'
+    },
+    {
+        command: 'ollama-code-fixer.optimizeSelection',
+        prompt: 'Optimize this code for performance and readability without changing its behavior. Return the full updated code and briefly explain the changes.',
+        task: 'chat'
+    },
+    {
+        command: 'ollama-code-fixer.commentSelection',
+        prompt: 'Add clear comments and doc comments to this code in the style of the language. Do not change the code itself. Return the full commented code.',
+        task: 'chat'
+    },
+    {
+        command: 'ollama-code-fixer.refactorSelection',
+        prompt: 'Refactor this code to improve its structure, naming and readability without changing its behavior. Return the full updated code and summarize the changes.',
+        task: 'chat'
+    },
+    {
+        command: 'ollama-code-fixer.checkSecuritySelection',
+        prompt: 'Review this code for security issues such as injection, unsafe input handling, secrets and insecure defaults. For each issue explain the risk and show a fix.',
+        task: 'chat'
+    },
+    {
+        command: 'ollama-code-fixer.writeTestsForSelection',
+        prompt: 'Write unit tests for this code that cover the main behavior and edge cases. Use the test framework that fits the language and project.',
+        task: 'tests'
+    }
+];
+
+/**
+ * Выделение, а без него — символ под курсором или весь файл.
+ */
+async function getTargetRange(editor: vscode.TextEditor): Promise<vscode.Range> {
+    if (!editor.selection.isEmpty) {
+        return editor.selection;
+    }
+    const symbol = await findEnclosingSymbol(editor.document, editor.selection);
+    if (symbol) {
+        return symbol.range;
+    }
+    const document = editor.document;
+    return new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+}
+
+// Команды контекстного меню редактора, которые открывают чат рядом и сразу задают вопрос о коде
+export class QuickActionCommands implements vscode.Disposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly chatProvider: OllamaCodeFixerChatProvider) {
+        for (const action of QUICK_ACTIONS) {
+            this._disposables.push(
+                vscode.commands.registerTextEditorCommand(action.command, editor => this.run(editor, action.prompt, action.task))
+            );
+        }
+        this._disposables.push(
+            vscode.commands.registerTextEditorCommand('ollama-code-fixer.askAboutSelection', async editor => {
+                const question = await vscode.window.showInputBox({
+                    prompt: 'Ask Ollama about the selected code',
+                    placeHolder: 'What does this function return when the list is empty?'
+                });
+                if (question && question.trim()) {
+                    await this.run(editor, question.trim(), 'chat');
+                }
+            })
+        );
+    }
+
+    private async run(editor: vscode.TextEditor, prompt: string, task: ModelTask) {
+        const range = await getTargetRange(editor);
+        if (editor.document.getText(range).trim().length === 0) {
+            vscode.window.showWarningMessage('There is no code to send to Ollama.');
+            return;
+        }
+        await this.chatProvider.askAboutCode(editor.document, range, prompt, task);
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
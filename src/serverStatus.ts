@@ -0,0 +1,299 @@
+import * as vscode from 'vscode';
+import { OllamaClient } from './ollama/client';
+import { RunningModel } from './ollama/types';
+import { formatSize } from './modelManager';
+import { escapeHtml, getNonce } from './utils/html';
+
+// Обычный интервал опроса и предел, до которого он растёт, пока сервер недоступен
+const POLL_INTERVAL = 30000;
+const MAX_POLL_INTERVAL = 5 * 60000;
+
+interface ServerInfo {
+    version?: string;
+    runningModels: RunningModel[];
+    checkedAt?: number;
+}
+
+function formatDuration(ms: number): string {
+    return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${ms} ms`;
+}
+
+/**
+ * Состояние сервера в строке состояния: версия, загруженные в память модели и задержка
+ * последнего запроса. Опрос замедляется, пока сервер недоступен, и останавливается,
+ * когда окно VS Code не в фокусе.
+ */
+export class ServerStatusMonitor implements vscode.Disposable {
+    private readonly _item: vscode.StatusBarItem;
+    private readonly _disposables: vscode.Disposable[] = [];
+    private _panel: vscode.WebviewPanel | undefined;
+    private _info: ServerInfo = { runningModels: [] };
+    private _timer: NodeJS.Timeout | undefined;
+    private _failures = 0;
+    private _refreshing: Promise<void> | undefined;
+
+    constructor(private readonly client: OllamaClient) {
+        this._item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+        this._item.text = 'Ollama: Checking...';
+        this._item.command = 'ollama-code-fixer.showServerStatus';
+        this._item.show();
+
+        this._disposables.push(
+            this._item,
+            vscode.commands.registerCommand('ollama-code-fixer.showServerStatus', () => this.showDetails()),
+            client.endpoints.onDidChange(() => this.update()),
+            client.onDidCompleteRequest(() => this.update()),
+            vscode.window.onDidChangeWindowState(state => {
+                if (state.focused) {
+                    // После возвращения фокуса сразу обновляем устаревший статус
+                    if (!this._timer) {
+                        this.refresh();
+                    }
+                } else {
+                    this.stopPolling();
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('ollamaCodeFixer.endpoints') || event.affectsConfiguration('ollamaCodeFixer.ollamaApiUrl')) {
+                    this.refresh();
+                }
+            })
+        );
+
+        this.refresh();
+    }
+
+    // Проверяет все профили и собирает сведения о текущем; параллельные вызовы объединяются
+    public refresh(): Promise<void> {
+        if (!this._refreshing) {
+            this._refreshing = this.poll().finally(() => {
+                this._refreshing = undefined;
+            });
+        }
+        return this._refreshing;
+    }
+
+    private async poll(): Promise<void> {
+        this.stopPolling();
+        const endpoints = this.client.endpoints;
+
+        await this.client.checkEndpoints();
+        for (const profile of endpoints.profiles) {
+            const health = endpoints.getHealth(profile.name);
+            if (health.status === 'offline') {
+                console.error(`[OllamaCodeFixer] API Status Check Error (${profile.name}):`, health.error);
+            }
+        }
+
+        const online = endpoints.getHealth(endpoints.current.name).status === 'online';
+        if (online) {
+            this._failures = 0;
+            try {
+                const [version, runningModels] = await Promise.all([
+                    this.client.version(),
+                    this.client.listRunningModels()
+                ]);
+                this._info = { version, runningModels, checkedAt: Date.now() };
+            } catch (error) {
+                console.error('[OllamaCodeFixer] Failed to load server info:', error);
+            }
+        } else {
+            this._failures++;
+            this._info = { runningModels: [], checkedAt: Date.now() };
+        }
+
+        this.update();
+        this.schedule(Math.min(POLL_INTERVAL * 2 ** this._failures, MAX_POLL_INTERVAL));
+    }
+
+    private schedule(delay: number): void {
+        if (!vscode.window.state.focused) {
+            return;
+        }
+        this._timer = setTimeout(() => this.refresh(), delay);
+    }
+
+    private stopPolling(): void {
+        if (this._timer) {
+            clearTimeout(this._timer);
+            this._timer = undefined;
+        }
+    }
+
+    private update(): void {
+        const endpoints = this.client.endpoints;
+        const current = endpoints.current;
+        const health = endpoints.getHealth(current.name);
+        const label = endpoints.profiles.length > 1 ? `Ollama (${current.name})` : 'Ollama';
+        const lastRequest = this.client.lastRequest;
+
+        const tooltip = new vscode.MarkdownString('', true);
+        tooltip.appendMarkdown(`**${label}** — ${current.url}\n\n`);
+        if (endpoints.isFailedOver) {
+            tooltip.appendMarkdown(`$(warning) Failed over from "${endpoints.selected.name}"\n\n`);
+        }
+
+        if (health.status === 'offline') {
+            this._item.text = `$(error) ${label}: Offline`;
+            this._item.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+            tooltip.appendMarkdown(`Ollama API is not accessible.${health.error ? ` ${health.error}` : ''}\n\n`);
+        } else if (health.status === 'online') {
+            const parts = [`${label}${this._info.version ? ` ${this._info.version}` : ''}`];
+            if (this._info.runningModels.length > 0) {
+                parts.push(`${this._info.runningModels.length} loaded`);
+            }
+            if (lastRequest && lastRequest.endpoint === current.name) {
+                parts.push(formatDuration(lastRequest.durationMs));
+            }
+            this._item.text = `$(pass) ${parts.join(' · ')}`;
+            this._item.backgroundColor = endpoints.isFailedOver
+                ? new vscode.ThemeColor('statusBarItem.warningBackground')
+                : undefined;
+
+            tooltip.appendMarkdown(`Version: ${this._info.version || 'unknown'}\n\n`);
+            if (this._info.runningModels.length > 0) {
+                tooltip.appendMarkdown('Loaded models:\n');
+                for (const model of this._info.runningModels) {
+                    tooltip.appendMarkdown(`- \`${model.name}\` — VRAM ${formatSize(model.size_vram)}, RAM ${formatSize(Math.max(0, model.size - model.size_vram))}\n`);
+                }
+                tooltip.appendMarkdown('\n');
+            } else {
+                tooltip.appendMarkdown('No models loaded in memory.\n\n');
+            }
+        } else {
+            this._item.text = `$(sync~spin) ${label}: Checking...`;
+            this._item.backgroundColor = undefined;
+        }
+
+        if (lastRequest) {
+            tooltip.appendMarkdown(`Last request: ${lastRequest.url} (${lastRequest.model}) on ${lastRequest.endpoint} — ${formatDuration(lastRequest.durationMs)}\n\n`);
+        }
+        tooltip.appendMarkdown('Click for details.');
+        this._item.tooltip = tooltip;
+
+        if (this._panel) {
+            this._panel.webview.html = this.getDetailsHtml(this._panel.webview);
+        }
+    }
+
+    private showDetails(): void {
+        if (this._panel) {
+            this._panel.reveal();
+            this.refresh();
+            return;
+        }
+
+        this._panel = vscode.window.createWebviewPanel(
+            'ollamaServerStatus',
+            'Ollama Server Status',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+        this._panel.webview.html = this.getDetailsHtml(this._panel.webview);
+        this._panel.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'refresh':
+                    this.refresh();
+                    break;
+                case 'selectEndpoint':
+                    vscode.commands.executeCommand('ollama-code-fixer.selectEndpoint');
+                    break;
+                case 'manageModels':
+                    vscode.commands.executeCommand('ollamaModelsView.focus');
+                    break;
+            }
+        }, null, this._disposables);
+        this._panel.onDidDispose(() => {
+            this._panel = undefined;
+        }, null, this._disposables);
+        this.refresh();
+    }
+
+    private getDetailsHtml(webview: vscode.Webview): string {
+        const nonce = getNonce();
+        const endpoints = this.client.endpoints;
+        const current = endpoints.current;
+        const lastRequest = this.client.lastRequest;
+
+        const endpointRows = endpoints.profiles.map(profile => {
+            const health = endpoints.getHealth(profile.name);
+            const marks = [
+                profile.name === current.name ? 'current' : '',
+                profile.name === endpoints.selected.name ? 'selected' : ''
+            ].filter(Boolean).join(', ');
+            return `<tr>
+                <td>${escapeHtml(profile.name)}${marks ? ` <span class="muted">(${marks})</span>` : ''}</td>
+                <td>${escapeHtml(profile.url)}</td>
+                <td class="${health.status}">${health.status}</td>
+                <td>${health.checkedAt ? new Date(health.checkedAt).toLocaleTimeString() : '—'}</td>
+                <td class="muted">${escapeHtml(health.error || '')}</td>
+            </tr>`;
+        }).join('');
+
+        const modelRows = this._info.runningModels.map(model => `<tr>
+                <td>${escapeHtml(model.name)}</td>
+                <td>${escapeHtml(model.details?.parameter_size || '')} ${escapeHtml(model.details?.quantization_level || '')}</td>
+                <td>${formatSize(model.size_vram)}</td>
+                <td>${formatSize(Math.max(0, model.size - model.size_vram))}</td>
+                <td>${model.expires_at ? new Date(model.expires_at).toLocaleTimeString() : '—'}</td>
+            </tr>`).join('');
+
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Ollama Server Status</title>
+            <style nonce="${nonce}">
+                body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 16px; }
+                h2 { margin-top: 24px; font-size: 1.1em; }
+                table { border-collapse: collapse; width: 100%; }
+                th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+                .muted { color: var(--vscode-descriptionForeground); }
+                .online { color: var(--vscode-testing-iconPassed); }
+                .offline { color: var(--vscode-errorForeground); }
+                button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 12px; margin-right: 8px; cursor: pointer; }
+                button:hover { background: var(--vscode-button-hoverBackground); }
+            </style>
+        </head>
+        <body>
+            <div>
+                <button data-command="refresh">Refresh</button>
+                <button data-command="selectEndpoint">Switch endpoint</button>
+                <button data-command="manageModels">Manage models</button>
+            </div>
+
+            <h2>${escapeHtml(current.name)} — ${escapeHtml(current.url)}</h2>
+            <p>Version: ${escapeHtml(this._info.version || 'unknown')}</p>
+            <p>Last request: ${lastRequest
+                ? `${escapeHtml(lastRequest.url)} (${escapeHtml(lastRequest.model)}) on ${escapeHtml(lastRequest.endpoint)} — ${formatDuration(lastRequest.durationMs)} at ${new Date(lastRequest.completedAt).toLocaleTimeString()}`
+                : '—'}</p>
+            <p class="muted">Checked: ${this._info.checkedAt ? new Date(this._info.checkedAt).toLocaleTimeString() : '—'}</p>
+
+            <h2>Loaded models</h2>
+            ${modelRows
+                ? `<table><tr><th>Model</th><th>Size</th><th>VRAM</th><th>RAM</th><th>Unloads at</th></tr>${modelRows}</table>`
+                : '<p class="muted">No models loaded in memory.</p>'}
+
+            <h2>Endpoints</h2>
+            <table><tr><th>Name</th><th>URL</th><th>Status</th><th>Checked</th><th></th></tr>${endpointRows}</table>
+
+            <script nonce="${nonce}">
+                const vscode = acquireVsCodeApi();
+                document.querySelectorAll('button[data-command]').forEach(button => {
+                    button.addEventListener('click', () => vscode.postMessage({ command: button.dataset.command }));
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+
+    dispose() {
+        this.stopPolling();
+        this._panel?.dispose();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
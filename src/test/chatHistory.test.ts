@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ChatHistory } from '../chatHistory';
+
+const SETTINGS = ['systemPrompt', 'contextLength', 'maxTokens'];
+
+async function configure(values: Record<string, unknown>): Promise<void> {
+	const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+	for (const [key, value] of Object.entries(values)) {
+		await config.update(key, value, vscode.ConfigurationTarget.Global);
+	}
+}
+
+// Сообщение примерно на tokens токенов при оценке ~4 символа на токен
+function text(tokens: number, marker: string): string {
+	return marker + 'x'.repeat(tokens * 4 - marker.length);
+}
+
+suite('ChatHistory', () => {
+	teardown(async () => {
+		await configure(Object.fromEntries(SETTINGS.map(key => [key, undefined])));
+	});
+
+	test('sends the system prompt first and attaches editor context to the message', async () => {
+		await configure({ systemPrompt: 'Be brief.', contextLength: 4096, maxTokens: 1024 });
+		const history = new ChatHistory();
+		history.addUserMessage('What does this do?', 'const a = 1;');
+
+		assert.deepStrictEqual(history.buildRequestMessages(), [
+			{ role: 'system', content: 'Be brief.' },
+			{ role: 'user', content: 'const a = 1;\n\nWhat does this do?' }
+		]);
+	});
+
+	test('drops the oldest messages that do not fit the context', async () => {
+		// Бюджет истории: max(1000 - 600, 1000 / 2) = 500 токенов
+		await configure({ systemPrompt: '', contextLength: 1000, maxTokens: 600 });
+		const history = new ChatHistory();
+		history.addUserMessage(text(200, 'first'));
+		history.addAssistantMessage(text(200, 'second'));
+		history.addUserMessage(text(200, 'third'));
+		history.addAssistantMessage(text(100, 'fourth'));
+		history.addUserMessage(text(100, 'fifth'));
+
+		const messages = history.buildRequestMessages();
+		assert.deepStrictEqual(messages.map(message => message.content.slice(0, 5)), ['third', 'fourt', 'fifth']);
+	});
+
+	test('starts the trimmed history with a user message', async () => {
+		await configure({ systemPrompt: '', contextLength: 1000, maxTokens: 600 });
+		const history = new ChatHistory();
+		history.addUserMessage(text(350, 'first'));
+		history.addAssistantMessage(text(100, 'second'));
+		history.addUserMessage(text(100, 'third'));
+
+		const messages = history.buildRequestMessages();
+		assert.deepStrictEqual(messages.map(message => message.role), ['user']);
+		assert.ok(messages[0].content.startsWith('third'));
+	});
+
+	test('always sends the last message even if it is too long', async () => {
+		await configure({ systemPrompt: '', contextLength: 1000, maxTokens: 600 });
+		const history = new ChatHistory();
+		history.addUserMessage('short question');
+		history.addAssistantMessage('short answer');
+		history.addUserMessage(text(2000, 'huge'));
+
+		const messages = history.buildRequestMessages();
+		assert.strictEqual(messages.length, 1);
+		assert.ok(messages[0].content.startsWith('huge'));
+	});
+});
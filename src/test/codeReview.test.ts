@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { annotateDiff, parseFindings } from '../codeReview';
+
+suite('Code review', () => {
+	suite('annotateDiff', () => {
+		test('numbers added and context lines of the new version', () => {
+			const diff = [
+				'diff --git a/src/a.ts b/src/a.ts',
+				'--- a/src/a.ts',
+				'+++ b/src/a.ts',
+				'@@ -10,3 +10,3 @@ function a() {',
+				' const x = 1;',
+				'-const y = 2;',
+				'+const y = 3;',
+				' return x + y;'
+			].join('\n');
+
+			assert.deepStrictEqual(annotateDiff(diff).split('\n'), [
+				'@@ -10,3 +10,3 @@ function a() {',
+				'  10  const x = 1;',
+				'     -const y = 2;',
+				'  11 +const y = 3;',
+				'  12  return x + y;'
+			]);
+		});
+
+		test('restarts numbering at every hunk', () => {
+			const diff = '@@ -1 +1 @@\n+first\n@@ -40,0 +41,2 @@\n+second\n+third';
+			assert.deepStrictEqual(annotateDiff(diff).split('\n').filter(line => !line.startsWith('@@')), [
+				'   1 +first',
+				'  41 +second',
+				'  42 +third'
+			]);
+		});
+	});
+
+	suite('parseFindings', () => {
+		test('reads the findings object', () => {
+			const response = JSON.stringify({
+				findings: [{ line: 12, endLine: 14, severity: 'error', message: ' Null dereference ', suggestion: 'if (x) {\n}\n\n' }]
+			});
+			assert.deepStrictEqual(parseFindings(response, 'src/a.ts'), [{
+				file: 'src/a.ts',
+				line: 12,
+				endLine: 14,
+				severity: 'error',
+				message: 'Null dereference',
+				suggestion: 'if (x) {\n}'
+			}]);
+		});
+
+		test('finds JSON surrounded by text', () => {
+			const findings = parseFindings('Here you go:\n{"findings": [{"line": 3, "message": "Unused variable"}]}\nDone.', 'a.py');
+			assert.strictEqual(findings.length, 1);
+			assert.strictEqual(findings[0].line, 3);
+			assert.strictEqual(findings[0].severity, 'warning');
+		});
+
+		test('maps severity synonyms', () => {
+			const response = JSON.stringify([
+				{ line: 1, message: 'a', severity: 'critical' },
+				{ line: 2, message: 'b', severity: 'low' },
+				{ line: 3, message: 'c', severity: 'medium' }
+			]);
+			assert.deepStrictEqual(parseFindings(response, 'a.ts').map(finding => finding.severity), ['error', 'info', 'warning']);
+		});
+
+		test('drops invalid findings and ranges', () => {
+			const response = JSON.stringify({
+				findings: [
+					{ line: 0, message: 'no line' },
+					{ line: 5 },
+					{ line: 7, endLine: 2, message: 'reversed range', suggestion: '   ' }
+				]
+			});
+			const findings = parseFindings(response, 'a.ts');
+			assert.strictEqual(findings.length, 1);
+			assert.strictEqual(findings[0].endLine, undefined);
+			assert.strictEqual(findings[0].suggestion, undefined);
+		});
+
+		test('returns nothing for unparsable responses', () => {
+			assert.deepStrictEqual(parseFindings('No issues found.', 'a.ts'), []);
+			assert.deepStrictEqual(parseFindings('{"findings": [', 'a.ts'), []);
+		});
+	});
+});
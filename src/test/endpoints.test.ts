@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { DEFAULT_BASE_URL, normalizeBaseUrl } from '../ollama/endpoints';
+
+suite('normalizeBaseUrl', () => {
+	test('keeps a plain server address', () => {
+		assert.strictEqual(normalizeBaseUrl('http://localhost:11434'), 'http://localhost:11434');
+		assert.strictEqual(normalizeBaseUrl('https://ollama.example.com'), 'https://ollama.example.com');
+	});
+
+	test('strips trailing slashes and API paths', () => {
+		assert.strictEqual(normalizeBaseUrl('http://localhost:11434/'), 'http://localhost:11434');
+		assert.strictEqual(normalizeBaseUrl('http://localhost:11434/api'), 'http://localhost:11434');
+		assert.strictEqual(normalizeBaseUrl('http://localhost:11434/api/generate'), 'http://localhost:11434');
+	});
+
+	test('keeps a reverse proxy prefix', () => {
+		assert.strictEqual(normalizeBaseUrl(' https://example.com/ollama/api/ '), 'https://example.com/ollama');
+	});
+
+	test('falls back to the default address', () => {
+		assert.strictEqual(normalizeBaseUrl(undefined), DEFAULT_BASE_URL);
+		assert.strictEqual(normalizeBaseUrl(''), DEFAULT_BASE_URL);
+		assert.strictEqual(normalizeBaseUrl('not a url'), DEFAULT_BASE_URL);
+		assert.strictEqual(normalizeBaseUrl('ftp://localhost:11434'), DEFAULT_BASE_URL);
+	});
+});
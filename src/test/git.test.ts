@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { GENERATED_FILES, splitDiffByFile } from '../utils/git';
+
+suite('Git utilities', () => {
+	test('splitDiffByFile splits a diff into files', () => {
+		const first = 'diff --git a/src/a.ts b/src/a.ts\nindex 1..2 100644\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-a\n+b\n';
+		const second = 'diff --git a/README.md b/README.md\n--- a/README.md\n+++ b/README.md\n@@ -1 +1 @@\n-x\n+y\n';
+
+		const files = splitDiffByFile(first + second);
+		assert.deepStrictEqual(files.map(file => file.path), ['src/a.ts', 'README.md']);
+		assert.strictEqual(files[0].diff, first);
+		assert.strictEqual(files[1].diff, second);
+	});
+
+	test('splitDiffByFile uses the new path of renamed files', () => {
+		const files = splitDiffByFile('diff --git a/old/name.ts b/new/name.ts\nsimilarity index 90%\nrename from old/name.ts\nrename to new/name.ts\n');
+		assert.strictEqual(files.length, 1);
+		assert.strictEqual(files[0].path, 'new/name.ts');
+	});
+
+	test('splitDiffByFile returns nothing for an empty diff', () => {
+		assert.deepStrictEqual(splitDiffByFile(''), []);
+		assert.deepStrictEqual(splitDiffByFile('\n'), []);
+	});
+
+	test('GENERATED_FILES matches lock files only', () => {
+		assert.ok(GENERATED_FILES.test('package-lock.json'));
+		assert.ok(GENERATED_FILES.test('web/yarn.lock'));
+		assert.ok(!GENERATED_FILES.test('src/package-lock.json.ts'));
+		assert.ok(!GENERATED_FILES.test('src/lock.ts'));
+	});
+});
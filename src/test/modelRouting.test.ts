@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { applySamplingProfile, resolveModel } from '../modelRouting';
+
+const SETTINGS = ['modelName', 'modelRoutes', 'samplingProfiles', 'stopSequences', 'seed'];
+
+async function configure(values: Record<string, unknown>): Promise<void> {
+	const config = vscode.workspace.getConfiguration('ollamaCodeFixer');
+	for (const [key, value] of Object.entries(values)) {
+		await config.update(key, value, vscode.ConfigurationTarget.Global);
+	}
+}
+
+suite('Model routing', () => {
+	teardown(async () => {
+		await configure(Object.fromEntries(SETTINGS.map(key => [key, undefined])));
+	});
+
+	suite('applySamplingProfile', () => {
+		test('overrides only the values set in the profile', () => {
+			const options = applySamplingProfile(
+				{ temperature: 0.7, top_p: 0.9, num_predict: 2048 },
+				{ temperature: 0.1, maxTokens: 256, stopSequences: ['END'] }
+			);
+			assert.deepStrictEqual(options, { temperature: 0.1, top_p: 0.9, num_predict: 256, stop: ['END'] });
+		});
+
+		test('does not change the original options', () => {
+			const original = { temperature: 0.7 };
+			applySamplingProfile(original, { temperature: 0 });
+			assert.deepStrictEqual(original, { temperature: 0.7 });
+		});
+
+		test('drops a negative seed', () => {
+			assert.strictEqual(applySamplingProfile({ seed: 42 }, { seed: -1 }).seed, undefined);
+			assert.strictEqual(applySamplingProfile({}, { seed: 7 }).seed, 7);
+		});
+	});
+
+	suite('resolveModel', () => {
+		test('uses modelName without matching routes', async () => {
+			await configure({ modelName: 'base-model', modelRoutes: [{ task: 'chat', model: 'chat-model' }] });
+			const resolved = resolveModel('fix', 'typescript');
+			assert.strictEqual(resolved.model, 'base-model');
+			assert.strictEqual(resolved.route, undefined);
+		});
+
+		test('prefers the most specific route', async () => {
+			await configure({
+				modelName: 'base-model',
+				modelRoutes: [
+					{ languages: ['python'], model: 'python-model' },
+					{ task: 'fix', model: 'fix-model' },
+					{ task: 'fix', languages: ['python'], model: 'python-fix-model' },
+					{ task: 'fix', languages: ['python'], model: 'second-python-fix-model' }
+				]
+			});
+			assert.strictEqual(resolveModel('fix', 'python').model, 'python-fix-model');
+			assert.strictEqual(resolveModel('fix', 'go').model, 'fix-model');
+			assert.strictEqual(resolveModel('chat', 'python').model, 'python-model');
+			assert.strictEqual(resolveModel('chat').model, 'base-model');
+		});
+
+		test('applies the sampling profile of the route', async () => {
+			await configure({
+				modelRoutes: [{ task: 'explain', model: 'explain-model', profile: 'strict' }],
+				samplingProfiles: { strict: { temperature: 0, maxTokens: 512 } }
+			});
+			const { options } = resolveModel('explain');
+			assert.strictEqual(options.temperature, 0);
+			assert.strictEqual(options.num_predict, 512);
+		});
+
+		test('ignores an unknown sampling profile', async () => {
+			await configure({ modelRoutes: [{ task: 'tests', model: 'tests-model', profile: 'missing' }] });
+			const resolved = resolveModel('tests');
+			assert.strictEqual(resolved.model, 'tests-model');
+			assert.strictEqual(resolved.options.temperature, vscode.workspace.getConfiguration('ollamaCodeFixer').get<number>('temperature'));
+		});
+
+		test('adds stop sequences to fixes only', async () => {
+			await configure({ stopSequences: ['[/INST]', '```'] });
+			assert.deepStrictEqual(resolveModel('fix').options.stop, ['[/INST]', '```']);
+			for (const task of ['chat', 'explain', 'tests', 'docs', 'review', 'commitMessage'] as const) {
+				assert.strictEqual(resolveModel(task).options.stop, undefined, task);
+			}
+		});
+	});
+});
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { AxiosError, AxiosResponse } from 'axios';
+import { CircuitOpenError, RetryManager } from '../utils/retry';
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+	const response = { status, statusText: '', headers, data: {}, config: {} } as AxiosResponse;
+	return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, response);
+}
+
+function networkError(code: string): AxiosError {
+	return new AxiosError(`connect ${code}`, code);
+}
+
+// Операция, которая падает заданными ошибками, а затем возвращает 'ok'
+function failing(...errors: Error[]): { operation: () => Promise<string>; calls: () => number } {
+	let calls = 0;
+	return {
+		operation: async () => {
+			const error = errors[calls++];
+			if (error) {
+				throw error;
+			}
+			return 'ok';
+		},
+		calls: () => calls
+	};
+}
+
+suite('RetryManager', () => {
+	let retry: RetryManager;
+
+	setup(() => {
+		retry = new RetryManager();
+	});
+
+	teardown(() => {
+		retry.dispose();
+	});
+
+	test('retries retryable HTTP errors', async () => {
+		const { operation, calls } = failing(httpError(503), httpError(502));
+		const result = await retry.withRetry(operation, { maxRetries: 3, retryDelay: 1, jitter: 0, circuitKey: 'retryable' });
+		assert.strictEqual(result, 'ok');
+		assert.strictEqual(calls(), 3);
+	});
+
+	test('does not retry client errors', async () => {
+		const { operation, calls } = failing(httpError(400));
+		await assert.rejects(retry.withRetry(operation, { maxRetries: 3, retryDelay: 1, circuitKey: 'client-error' }));
+		assert.strictEqual(calls(), 1);
+	});
+
+	test('waits for Retry-After instead of the backoff delay', async () => {
+		const { operation, calls } = failing(httpError(429, { 'retry-after': '0' }));
+		const startedAt = Date.now();
+		const result = await retry.withRetry(operation, { maxRetries: 1, retryDelay: 10000, jitter: 0, circuitKey: 'retry-after' });
+		assert.strictEqual(result, 'ok');
+		assert.strictEqual(calls(), 2);
+		assert.ok(Date.now() - startedAt < 1000);
+	});
+
+	test('caps Retry-After with maxRetryDelay', async () => {
+		const { operation } = failing(httpError(503, { 'retry-after': '120' }));
+		const startedAt = Date.now();
+		await retry.withRetry(operation, { maxRetries: 1, maxRetryDelay: 10, circuitKey: 'retry-after-cap' });
+		assert.ok(Date.now() - startedAt < 1000);
+	});
+
+	test('opens the circuit after the failure threshold', async () => {
+		const options = { maxRetries: 0, circuitBreakerThreshold: 2, circuitBreakerCooldown: 60000, circuitKey: 'threshold' };
+		const { operation, calls } = failing(httpError(503), httpError(503));
+		await assert.rejects(retry.withRetry(operation, options));
+		assert.strictEqual(retry.isCircuitOpen('threshold'), false);
+		await assert.rejects(retry.withRetry(operation, options));
+		assert.strictEqual(retry.isCircuitOpen('threshold'), true);
+
+		await assert.rejects(retry.withRetry(operation, options), CircuitOpenError);
+		assert.strictEqual(calls(), 2);
+	});
+
+	test('sends a probe after the cooldown and closes the circuit on success', async () => {
+		const options = { maxRetries: 0, circuitBreakerThreshold: 1, circuitBreakerCooldown: 0, circuitKey: 'probe' };
+		const { operation } = failing(httpError(503));
+		await assert.rejects(retry.withRetry(operation, options));
+		assert.strictEqual(retry.isCircuitOpen('probe'), true);
+
+		assert.strictEqual(await retry.withRetry(operation, options), 'ok');
+		assert.strictEqual(retry.isCircuitOpen('probe'), false);
+	});
+
+	test('fails fast and opens the circuit when the connection is refused', async () => {
+		const { operation, calls } = failing(networkError('ECONNREFUSED'), networkError('ECONNREFUSED'));
+		const options = { maxRetries: 3, retryDelay: 1, circuitBreakerThreshold: 5, circuitBreakerCooldown: 60000, circuitKey: 'refused' };
+		await assert.rejects(retry.withRetry(operation, options));
+		assert.strictEqual(calls(), 1);
+		assert.strictEqual(retry.isCircuitOpen('refused'), true);
+	});
+
+	test('keeps circuits of different servers separate', async () => {
+		const options = { maxRetries: 0, circuitBreakerThreshold: 1, circuitBreakerCooldown: 60000 };
+		await assert.rejects(retry.withRetry(failing(httpError(503)).operation, { ...options, circuitKey: 'first' }));
+		assert.strictEqual(await retry.withRetry(failing().operation, { ...options, circuitKey: 'second' }), 'ok');
+		assert.strictEqual(retry.isCircuitOpen('first'), true);
+		assert.strictEqual(retry.isCircuitOpen('second'), false);
+	});
+});
@@ -0,0 +1,405 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { OllamaClient } from './ollama/client';
+import { resolveModel } from './modelRouting';
+import { isCancellationError } from './utils/retry';
+import { readTextFile } from './utils/workspace';
+
+const TEST_EXCLUDE = '**/{node_modules,.git,dist,out,build,.venv,venv}/**';
+// Сколько строк существующего теста показать модели как образец стиля
+const EXAMPLE_LINES = 60;
+
+const JS_LANGUAGES = ['javascript', 'typescript', 'javascriptreact', 'typescriptreact'];
+const TEST_DIR_NAMES = ['test', 'tests', '__tests__', 'spec'];
+
+// Пакеты в package.json и фреймворк, на который они указывают; порядок важен — vitest раньше jest
+const JS_FRAMEWORKS: [string, string][] = [
+    ['vitest', 'Vitest'],
+    ['jest', 'Jest'],
+    ['ts-jest', 'Jest'],
+    ['mocha', 'Mocha'],
+    ['@vscode/test-electron', 'Mocha'],
+    ['@vscode/test-cli', 'Mocha'],
+    ['ava', 'AVA'],
+    ['jasmine', 'Jasmine']
+];
+
+interface TestTarget {
+    uri: vscode.Uri;
+    exists: boolean;
+    // Существующий тест проекта, по которому модель подстраивает стиль
+    example?: vscode.Uri;
+}
+
+// Ближайший к файлу каталог с указанным файлом, не выше папки рабочей области
+async function findUp(start: vscode.Uri, fileName: string): Promise<vscode.Uri | undefined> {
+    const folder = vscode.workspace.getWorkspaceFolder(start);
+    let dir = path.posix.dirname(start.path);
+    const root = folder?.uri.path ?? '/';
+    while (dir.startsWith(root)) {
+        const candidate = start.with({ path: path.posix.join(dir, fileName) });
+        try {
+            await vscode.workspace.fs.stat(candidate);
+            return candidate;
+        } catch {
+            // Файла здесь нет, поднимаемся выше
+        }
+        const parent = path.posix.dirname(dir);
+        if (parent === dir) {
+            break;
+        }
+        dir = parent;
+    }
+    return undefined;
+}
+
+async function fileContains(start: vscode.Uri, fileName: string, pattern: RegExp): Promise<boolean> {
+    const uri = await findUp(start, fileName);
+    const text = uri && await readTextFile(uri);
+    return !!text && pattern.test(text);
+}
+
+/**
+ * Определяет тестовый фреймворк по файлам проекта: package.json, pytest.ini, pyproject.toml,
+ * pom.xml и т. п. undefined — фреймворк выбирает модель.
+ */
+export async function detectTestFramework(document: vscode.TextDocument): Promise<string | undefined> {
+    const uri = document.uri;
+    const languageId = document.languageId;
+
+    if (JS_LANGUAGES.includes(languageId)) {
+        const packageJson = await findUp(uri, 'package.json');
+        const text = packageJson && await readTextFile(packageJson);
+        if (text) {
+            try {
+                const manifest = JSON.parse(text);
+                const dependencies = { ...manifest.dependencies, ...manifest.devDependencies };
+                const found = JS_FRAMEWORKS.find(([name]) => name in dependencies);
+                if (found) {
+                    return found[1];
+                }
+                if (/node --test/.test(manifest.scripts?.test || '')) {
+                    return 'node:test';
+                }
+            } catch (error) {
+                console.warn('[OllamaCodeFixer] Cannot parse package.json:', error);
+            }
+        }
+        return undefined;
+    }
+
+    switch (languageId) {
+        case 'python':
+            if (await findUp(uri, 'pytest.ini') || await findUp(uri, 'conftest.py')
+                || await fileContains(uri, 'pyproject.toml', /\[tool\.pytest/)
+                || await fileContains(uri, 'setup.cfg', /\[tool:pytest\]/)
+                || await fileContains(uri, 'tox.ini', /\[pytest\]/)
+                || await fileContains(uri, 'requirements-dev.txt', /^pytest\b/m)
+                || await fileContains(uri, 'requirements.txt', /^pytest\b/m)) {
+                return 'pytest';
+            }
+            return 'unittest';
+        case 'go':
+            return 'Go testing package';
+        case 'rust':
+            return 'Rust built-in #[test]';
+        case 'java':
+        case 'kotlin':
+            if (await fileContains(uri, 'pom.xml', /junit-jupiter/) || await fileContains(uri, 'build.gradle', /junit-jupiter|useJUnitPlatform/)
+                || await fileContains(uri, 'build.gradle.kts', /junit-jupiter|useJUnitPlatform/)) {
+                return 'JUnit 5';
+            }
+            if (await fileContains(uri, 'pom.xml', /junit/) || await fileContains(uri, 'build.gradle', /junit/)) {
+                return 'JUnit 4';
+            }
+            return undefined;
+        case 'ruby':
+            return await findUp(uri, '.rspec') ? 'RSpec' : 'Minitest';
+    }
+    return undefined;
+}
+
+// Каталог существующих тестов, ближе всего расположенный к исходному файлу
+function closestDirectory(sourceDir: string, testFiles: vscode.Uri[]): string | undefined {
+    let best: string | undefined;
+    let bestScore = -1;
+    for (const uri of testFiles) {
+        const dir = path.posix.dirname(uri.path);
+        const common = commonPrefixLength(dir.split('/'), sourceDir.split('/'));
+        if (common > bestScore) {
+            best = dir;
+            bestScore = common;
+        }
+    }
+    return best;
+}
+
+function commonPrefixLength(a: string[], b: string[]): number {
+    let i = 0;
+    while (i < a.length && i < b.length && a[i] === b[i]) {
+        i++;
+    }
+    return i;
+}
+
+// Тесты рядом с исходниками или в отдельной папке — как в найденных тестах проекта
+function chooseTestDirectory(source: vscode.Uri, existing: vscode.Uri[]): string {
+    const sourceDir = path.posix.dirname(source.path);
+    const closest = closestDirectory(sourceDir, existing);
+    if (!closest) {
+        return sourceDir;
+    }
+    if (path.posix.basename(closest) === '__tests__') {
+        return path.posix.join(sourceDir, '__tests__');
+    }
+    return closest.split('/').some(segment => TEST_DIR_NAMES.includes(segment)) ? closest : sourceDir;
+}
+
+/**
+ * Файл, куда положить тесты, по соглашениям проекта: суффикс .test/.spec и каталог
+ * берутся из существующих тестов, для Go, Java и Ruby — стандартное расположение.
+ */
+export async function findTestTarget(document: vscode.TextDocument): Promise<TestTarget> {
+    const source = document.uri;
+    const folder = vscode.workspace.getWorkspaceFolder(source);
+    const ext = path.posix.extname(source.path);
+    const name = path.posix.basename(source.path, ext);
+    const sourceDir = path.posix.dirname(source.path);
+    const find = (pattern: string) => folder
+        ? vscode.workspace.findFiles(new vscode.RelativePattern(folder, pattern), TEST_EXCLUDE, 200)
+        : Promise.resolve([] as vscode.Uri[]);
+
+    let existing: vscode.Uri[] = [];
+    let targetPath: string;
+
+    if (JS_LANGUAGES.includes(document.languageId)) {
+        existing = await find('**/*.{test,spec}.{ts,tsx,js,jsx,mjs,cjs}');
+        const specs = existing.filter(uri => /\.spec\.[^.]+$/.test(uri.path)).length;
+        const suffix = specs > existing.length - specs ? '.spec' : '.test';
+        targetPath = path.posix.join(chooseTestDirectory(source, existing), `${name}${suffix}${ext}`);
+    } else if (document.languageId === 'python') {
+        existing = await find('**/{test_*,*_test}.py');
+        const suffixed = existing.filter(uri => path.posix.basename(uri.path).endsWith('_test.py')).length;
+        const fileName = suffixed > existing.length - suffixed ? `${name}_test.py` : `test_${name}.py`;
+        const dir = existing.length > 0
+            ? chooseTestDirectory(source, existing)
+            : folder ? path.posix.join(folder.uri.path, 'tests') : sourceDir;
+        targetPath = path.posix.join(dir, fileName);
+    } else if (document.languageId === 'go') {
+        targetPath = path.posix.join(sourceDir, `${name}_test.go`);
+        existing = await find('**/*_test.go');
+    } else if ((document.languageId === 'java' || document.languageId === 'kotlin') && sourceDir.includes('/src/main/')) {
+        targetPath = path.posix.join(sourceDir.replace('/src/main/', '/src/test/'), `${name}Test${ext}`);
+        existing = await find(`**/src/test/**/*Test${ext}`);
+    } else if (document.languageId === 'ruby') {
+        existing = await find('spec/**/*_spec.rb');
+        targetPath = folder && existing.length > 0
+            ? path.posix.join(folder.uri.path, 'spec', `${name}_spec.rb`)
+            : path.posix.join(sourceDir, `${name}_test.rb`);
+    } else {
+        targetPath = path.posix.join(sourceDir, `${name}.test${ext}`);
+    }
+
+    const uri = source.with({ path: targetPath });
+    let exists = true;
+    try {
+        await vscode.workspace.fs.stat(uri);
+    } catch {
+        exists = false;
+    }
+    const example = existing.find(candidate => candidate.toString() !== uri.toString());
+    return { uri, exists, example };
+}
+
+// Путь для импорта тестируемого модуля из файла тестов
+function importPath(from: vscode.Uri, to: vscode.Uri, languageId: string): string | undefined {
+    if (JS_LANGUAGES.includes(languageId)) {
+        const relative = path.posix.relative(path.posix.dirname(from.path), to.path).replace(/\.(ts|tsx|js|jsx|mjs|cjs)$/, '');
+        return relative.startsWith('.') ? relative : `./${relative}`;
+    }
+    if (languageId === 'python') {
+        const folder = vscode.workspace.getWorkspaceFolder(to);
+        const relative = folder ? path.posix.relative(folder.uri.path, to.path) : path.posix.basename(to.path);
+        return relative.replace(/\.py$/, '').split('/').join('.');
+    }
+    return undefined;
+}
+
+// Модель может вернуть код без ограждения или оборвать ответ до закрывающего ```
+function extractCode(response: string): string {
+    const match = response.match(/```[^\n]*\n([\s\S]*?)(?:```|$)/);
+    return (match ? match[1] : response).trim();
+}
+
+// Строки импорта в начале ответа и всё остальное: импорты встают к импортам файла, тесты — в конец
+const IMPORT_LINE = /^\s*(import\b|from\s+\S+\s+import\b|(const|let|var)\s+.+=\s*require\(|using\s|use\s|#include\b|require\b)/;
+
+function splitImports(code: string): { imports: string[]; body: string } {
+    const lines = code.split(/\r?\n/);
+    let index = 0;
+    while (index < lines.length && (IMPORT_LINE.test(lines[index]) || !lines[index].trim())) {
+        index++;
+    }
+    return {
+        imports: lines.slice(0, index).filter(line => line.trim()),
+        body: lines.slice(index).join('\n').trim()
+    };
+}
+
+/**
+ * Генерация модульных тестов в настоящий файл тестов проекта. Изменения показываются
+ * в предпросмотре рефакторинга и записываются только после подтверждения.
+ */
+export class TestGenerator implements vscode.Disposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly client: OllamaClient) {
+        this._disposables.push(
+            vscode.commands.registerTextEditorCommand('ollama-code-fixer.generateTests', editor => this.generate(editor))
+        );
+    }
+
+    private async generate(editor: vscode.TextEditor): Promise<void> {
+        const document = editor.document;
+        if (document.isUntitled) {
+            vscode.window.showWarningMessage('Save the file before generating tests for it.');
+            return;
+        }
+        const range = editor.selection.isEmpty
+            ? new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length))
+            : new vscode.Range(editor.selection.start, editor.selection.end);
+        const code = document.getText(range);
+        if (!code.trim()) {
+            vscode.window.showWarningMessage('There is no code to generate tests for.');
+            return;
+        }
+
+        const result = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Ollama: Generating tests',
+                cancellable: true
+            },
+            async (progress, token) => {
+                const abortController = new AbortController();
+                token.onCancellationRequested(() => abortController.abort());
+
+                progress.report({ message: 'Detecting test framework...' });
+                const [framework, target] = await Promise.all([detectTestFramework(document), findTestTarget(document)]);
+
+                progress.report({ message: vscode.workspace.asRelativePath(target.uri) });
+                const prompt = await this.buildPrompt(document, code, !editor.selection.isEmpty, framework, target);
+                const { model, options } = resolveModel('tests', document.languageId);
+                const response = await this.client.generate({ model, prompt, options }, abortController.signal);
+                const text = extractCode(response.response);
+                if (!text) {
+                    throw new Error('The model returned no test code.');
+                }
+                return { target, text };
+            }
+        ).then(value => value, error => {
+            if (isCancellationError(error)) {
+                console.log('[OllamaCodeFixer] Test generation cancelled.');
+            } else {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error('[OllamaCodeFixer] Test generation failed:', error);
+                vscode.window.showErrorMessage(`Failed to generate tests: ${message}`);
+            }
+            return undefined;
+        });
+        if (!result) {
+            return;
+        }
+
+        const { target, text } = result;
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            needsConfirmation: true,
+            label: 'Ollama tests',
+            description: vscode.workspace.asRelativePath(target.uri)
+        };
+        const edit = new vscode.WorkspaceEdit();
+        if (target.exists) {
+            // Существующие тесты не трогаем: новые импорты — после последнего импорта файла, тесты — в конец
+            const testDocument = await vscode.workspace.openTextDocument(target.uri);
+            const existing = testDocument.getText();
+            const { imports, body } = splitImports(text);
+            const missing = imports.filter(line => !existing.includes(line.trim()));
+            if (missing.length > 0) {
+                let lastImport = -1;
+                for (let line = 0; line < testDocument.lineCount; line++) {
+                    if (IMPORT_LINE.test(testDocument.lineAt(line).text)) {
+                        lastImport = line;
+                    }
+                }
+                edit.insert(target.uri, new vscode.Position(lastImport + 1, 0), missing.join('\n') + '\n', metadata);
+            }
+            const separator = existing.length === 0 ? '' : existing.endsWith('\n') ? '\n' : '\n\n';
+            edit.insert(target.uri, testDocument.positionAt(existing.length), `${separator}${body}\n`, metadata);
+        } else {
+            edit.createFile(target.uri, { ignoreIfExists: true }, metadata);
+            edit.insert(target.uri, new vscode.Position(0, 0), text + '\n', metadata);
+        }
+
+        if (await vscode.workspace.applyEdit(edit)) {
+            await vscode.window.showTextDocument(target.uri, { preview: false });
+        } else {
+            console.log('[OllamaCodeFixer] Generated tests were not applied.');
+        }
+    }
+
+    private async buildPrompt(
+        document: vscode.TextDocument,
+        code: string,
+        isSelection: boolean,
+        framework: string | undefined,
+        target: TestTarget
+    ): Promise<string> {
+        const sourcePath = vscode.workspace.asRelativePath(document.uri);
+        const testPath = vscode.workspace.asRelativePath(target.uri);
+        const modulePath = importPath(target.uri, document.uri, document.languageId);
+        const lines = [
+            'You are an expert software engineer writing unit tests.',
+            `Language: ${document.languageId}`,
+            `Test framework: ${framework || 'choose the most common one for this language'}`,
+            `Source file: ${sourcePath}`,
+            `Test file: ${testPath}`
+        ];
+        if (modulePath) {
+            lines.push(`Import the code under test from: ${modulePath}`);
+        }
+        lines.push(
+            '',
+            `${isSelection ? 'Code to test (a fragment of the source file)' : 'Source file contents'}:`,
+            `\`\`\`${document.languageId}\n${code}\n\`\`\``
+        );
+
+        const existing = target.exists ? await readTextFile(target.uri) : undefined;
+        if (existing !== undefined) {
+            lines.push(
+                '',
+                'The test file already exists:',
+                `\`\`\`${document.languageId}\n${existing}\n\`\`\``,
+                '',
+                'Return only the new tests to append to the end of this file, preceded by any import lines the file does not have yet. Do not repeat the existing file or tests that already exist.'
+            );
+        } else {
+            const example = target.example && await readTextFile(target.example);
+            if (target.example && example) {
+                lines.push(
+                    '',
+                    `Follow the style of this existing test file (${vscode.workspace.asRelativePath(target.example)}):`,
+                    `\`\`\`\n${example.split(/\r?\n/).slice(0, EXAMPLE_LINES).join('\n')}\n\`\`\``
+                );
+            }
+            lines.push('', 'Return the complete contents of the new test file.');
+        }
+        lines.push('Cover normal behavior, edge cases and error handling. Return only raw code, without markdown fences or explanations.');
+        return lines.join('\n');
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+
+/**
+ * Запоминает последний текстовый редактор, с которым работал пользователь.
+ * Когда фокус в панели чата, activeTextEditor пуст, а код нужно брать из этого редактора.
+ */
+export class EditorTracker implements vscode.Disposable {
+    private static instance: EditorTracker;
+    private _lastEditor: vscode.TextEditor | undefined;
+    private readonly _subscription: vscode.Disposable;
+
+    private constructor() {
+        this._lastEditor = vscode.window.activeTextEditor;
+        this._subscription = vscode.window.onDidChangeActiveTextEditor(editor => {
+            if (editor && editor.document.uri.scheme !== 'output') {
+                this._lastEditor = editor;
+            }
+        });
+    }
+
+    public static getInstance(): EditorTracker {
+        if (!EditorTracker.instance) {
+            EditorTracker.instance = new EditorTracker();
+        }
+        return EditorTracker.instance;
+    }
+
+    public get lastEditor(): vscode.TextEditor | undefined {
+        if (vscode.window.activeTextEditor) {
+            return vscode.window.activeTextEditor;
+        }
+        const last = this._lastEditor;
+        if (!last || last.document.isClosed) {
+            return undefined;
+        }
+        // После переключения вкладок VS Code создаёт новый объект редактора для того же документа
+        return vscode.window.visibleTextEditors.find(editor => editor.document === last.document) || last;
+    }
+
+    dispose() {
+        this._subscription.dispose();
+    }
+}
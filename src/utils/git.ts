@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+
+// Часть API встроенного расширения Git (extensions/git/src/api/git.d.ts), которая здесь нужна
+export interface GitInputBox {
+    value: string;
+}
+
+export interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly inputBox: GitInputBox;
+    // cached = true — индексированные изменения, иначе — неиндексированные изменения рабочего дерева
+    diff(cached?: boolean): Promise<string>;
+}
+
+export interface GitAPI {
+    readonly repositories: GitRepository[];
+    // ref = '' — версия файла в индексе, 'HEAD' — в последнем коммите
+    toGitUri(uri: vscode.Uri, ref: string): vscode.Uri;
+}
+
+interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): GitAPI;
+}
+
+export interface FileDiff {
+    path: string;
+    diff: string;
+}
+
+// Файлы, изменения которых не нужно пересказывать или проверять моделью
+export const GENERATED_FILES = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|poetry\.lock|composer\.lock|Gemfile\.lock|go\.sum)$/;
+
+export async function getGitAPI(): Promise<GitAPI | undefined> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+        return undefined;
+    }
+    const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+    return gitExtension.enabled ? gitExtension.getAPI(1) : undefined;
+}
+
+// Репозиторий кнопки в панели системы управления версиями, иначе — репозиторий активного файла
+export async function pickRepository(git: GitAPI, rootUri?: vscode.Uri): Promise<GitRepository | undefined> {
+    const repositories = git.repositories;
+    if (rootUri) {
+        const repository = repositories.find(repo => repo.rootUri.toString() === rootUri.toString());
+        if (repository) {
+            return repository;
+        }
+    }
+    if (repositories.length <= 1) {
+        return repositories[0];
+    }
+
+    const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+    const containing = activePath && repositories
+        .filter(repo => activePath.startsWith(repo.rootUri.fsPath))
+        .sort((a, b) => b.rootUri.fsPath.length - a.rootUri.fsPath.length)[0];
+    if (containing) {
+        return containing;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        repositories.map(repo => ({ label: vscode.workspace.asRelativePath(repo.rootUri), repo })),
+        { placeHolder: 'Select a repository' }
+    );
+    return picked?.repo;
+}
+
+// Делит вывод git diff на части по файлам
+export function splitDiffByFile(diff: string): FileDiff[] {
+    const parts = diff.split(/^(?=diff --git )/m).filter(part => part.trim());
+    return parts.map(part => {
+        const header = part.match(/^diff --git a\/(.+?) b\/(.+)$/m);
+        return { path: header ? header[2] : 'unknown', diff: part };
+    });
+}
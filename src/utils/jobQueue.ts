@@ -0,0 +1,41 @@
+import { RequestCancelledError } from './retry';
+
+/**
+ * Очередь задач с ограничением одновременного выполнения.
+ * Задачи, не успевшие начаться до отмены, завершаются с RequestCancelledError.
+ */
+export class JobQueue {
+    private readonly waiting: Array<() => void> = [];
+    private running = 0;
+
+    constructor(private readonly concurrency: number, private readonly signal?: AbortSignal) {
+        this.concurrency = Math.max(1, concurrency);
+    }
+
+    public async add<T>(job: () => Promise<T>): Promise<T> {
+        if (this.running < this.concurrency) {
+            this.running++;
+        } else {
+            // Слот передаётся напрямую от завершившейся задачи
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        }
+
+        try {
+            if (this.signal?.aborted) {
+                throw new RequestCancelledError();
+            }
+            return await job();
+        } finally {
+            this.release();
+        }
+    }
+
+    private release() {
+        const resolve = this.waiting.shift();
+        if (resolve) {
+            resolve();
+        } else {
+            this.running--;
+        }
+    }
+}
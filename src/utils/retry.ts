@@ -1,40 +1,165 @@
-import { workspace } from 'vscode';
-import { AxiosError } from 'axios';
+import { Disposable, workspace } from 'vscode';
+import axios, { AxiosError } from 'axios';
 import { Logger } from './logger';
 
 export interface RetryOptions {
     maxRetries: number;
     retryDelay: number;
     backoffMultiplier: number;
+    // Верхняя граница паузы, в том числе для Retry-After
+    maxRetryDelay: number;
+    // Доля случайного разброса паузы: 0.2 — плюс-минус 20%
+    jitter: number;
+    // Сколько неудачных попыток подряд размыкают цепь; 0 отключает размыкатель
+    circuitBreakerThreshold: number;
+    circuitBreakerCooldown: number;
 }
 
-export class RetryManager {
-    private readonly options: RetryOptions;
+// Любой параметр из настроек можно переопределить для отдельного вызова
+export interface WithRetryOptions extends Partial<RetryOptions> {
+    isRetryable?: (error: any) => boolean;
+    // Сигнал отмены: прерывает ожидание между попытками и запрещает новые попытки
+    signal?: AbortSignal;
+    // У каждого сервера своя цепь, чтобы недоступный адрес не блокировал остальные
+    circuitKey?: string;
+}
+
+interface CircuitState {
+    failures: number;
+    openedAt?: number;
+    // После паузы пропускается одна пробная попытка, остальные вызовы по-прежнему отклоняются
+    probing: boolean;
+}
+
+export class RequestCancelledError extends Error {
+    constructor(message = 'Request cancelled') {
+        super(message);
+        this.name = 'RequestCancelledError';
+    }
+}
+
+// Цепь разомкнута: запрос отклонён сразу, без обращения к серверу
+export class CircuitOpenError extends Error {
+    constructor(public readonly key: string, public readonly retryInMs: number) {
+        super(`Circuit for ${key} is open, next attempt in ${Math.ceil(retryInMs / 1000)}s`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+export function isCancellationError(error: unknown): boolean {
+    return error instanceof RequestCancelledError || axios.isCancel(error);
+}
+
+// Сервер не слушает порт: повтор через секунду ничего не изменит
+function isConnectionRefused(error: unknown): boolean {
+    return error instanceof AxiosError && !error.response && error.code === 'ECONNREFUSED';
+}
+
+// Retry-After в секундах или HTTP-датой; учитывается только для 429 и 503
+function getRetryAfter(error: unknown): number | undefined {
+    if (!(error instanceof AxiosError) || !error.response || ![429, 503].includes(error.response.status)) {
+        return undefined;
+    }
+    const header = error.response.headers?.['retry-after'];
+    if (header === undefined || header === null) {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(String(header));
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Пауза между попытками, которая завершается досрочно при отмене
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new RequestCancelledError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RequestCancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export class RetryManager implements Disposable {
+    private options: RetryOptions;
     private readonly logger: Logger;
+    private readonly circuits = new Map<string, CircuitState>();
+    private readonly configSubscription: Disposable;
 
     constructor() {
         this.logger = Logger.getInstance();
+        this.options = this.readOptions();
+        this.logger.debug('RetryManager initialized with options:', this.options);
+
+        // Настройки применяются сразу, без перезапуска расширения
+        this.configSubscription = workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('ollamaCodeFixer')) {
+                this.options = this.readOptions();
+                this.logger.debug('RetryManager options reloaded:', this.options);
+            }
+        });
+    }
+
+    private readOptions(): RetryOptions {
         const config = workspace.getConfiguration('ollamaCodeFixer');
-        this.options = {
+        return {
             maxRetries: config.get<number>('maxRetries', 3),
             retryDelay: config.get<number>('retryDelay', 1000),
-            backoffMultiplier: config.get<number>('retryBackoffMultiplier', 1.5)
+            backoffMultiplier: config.get<number>('retryBackoffMultiplier', 1.5),
+            maxRetryDelay: config.get<number>('maxRetryDelay', 30000),
+            jitter: config.get<number>('retryJitter', 0.2),
+            circuitBreakerThreshold: config.get<number>('circuitBreakerThreshold', 5),
+            circuitBreakerCooldown: config.get<number>('circuitBreakerCooldown', 30000)
         };
-        this.logger.debug('RetryManager initialized with options:', this.options);
-    }    async withRetry<T>(
+    }
+
+    async withRetry<T>(
         operation: () => Promise<T>,
-        isRetryable: (error: any) => boolean = this.defaultIsRetryable
+        {
+            isRetryable = (error: any) => this.defaultIsRetryable(error),
+            signal,
+            circuitKey = 'default',
+            ...overrides
+        }: WithRetryOptions = {}
     ): Promise<T> {
+        const options: RetryOptions = { ...this.options, ...overrides };
+        const circuit = options.circuitBreakerThreshold > 0 ? this.acquireCircuit(circuitKey, options) : undefined;
+        // Пробная попытка после размыкания выполняется один раз, без повторов
+        const maxRetries = circuit?.probing ? 0 : options.maxRetries;
+
         let lastError: Error | undefined;
-        let delay = this.options.retryDelay;
+        let delay = options.retryDelay;
 
-        for (let attempt = 1; attempt <= this.options.maxRetries + 1; attempt++) {
+        for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+            if (signal?.aborted) {
+                this.releaseProbe(circuit);
+                throw new RequestCancelledError();
+            }
             try {
-                this.logger.debug(`Starting attempt ${attempt}/${this.options.maxRetries + 1}`);
+                this.logger.debug(`Starting attempt ${attempt}/${maxRetries + 1}`);
                 const result = await operation();
                 this.logger.debug(`Attempt ${attempt} succeeded`);
+                if (circuit) {
+                    this.closeCircuit(circuitKey, circuit);
+                }
                 return result;
             } catch (error) {
+                if (signal?.aborted || isCancellationError(error)) {
+                    this.logger.debug(`Attempt ${attempt} cancelled`);
+                    this.releaseProbe(circuit);
+                    throw error;
+                }
                 lastError = error as Error;
                 
                 this.logger.error(`Attempt ${attempt} failed:`, {
@@ -43,15 +168,31 @@ export class RetryManager {
                     status: (error as AxiosError)?.response?.status,
                     code: (error as AxiosError)?.code
                 });
+
+                const refused = isConnectionRefused(error);
+                const retryable = !refused && isRetryable(error);
+                if (circuit) {
+                    // Отказ в соединении сразу размыкает цепь; ошибка, которую не повторяем, значит, что сервер доступен
+                    if (refused) {
+                        circuit.failures++;
+                        this.openCircuit(circuitKey, circuit);
+                    } else if (retryable) {
+                        this.recordFailure(circuitKey, circuit, options);
+                    } else {
+                        this.closeCircuit(circuitKey, circuit);
+                    }
+                }
                 
-                if (attempt <= this.options.maxRetries && isRetryable(error)) {
-                    this.logger.info(`Retrying in ${delay}ms... (attempt ${attempt}/${this.options.maxRetries})`);
-                    await new Promise(resolve => setTimeout(resolve, delay));
-                    delay *= this.options.backoffMultiplier;
+                if (attempt <= maxRetries && retryable && circuit?.openedAt === undefined) {
+                    const wait = this.getDelay(error, delay, options);
+                    this.logger.info(`Retrying in ${wait}ms... (attempt ${attempt}/${maxRetries})`);
+                    await sleep(wait, signal);
+                    delay *= options.backoffMultiplier;
                 } else {
                     this.logger.warn(`No more retries after attempt ${attempt}`, {
-                        maxRetries: this.options.maxRetries,
-                        isRetryable: isRetryable(error)
+                        maxRetries,
+                        isRetryable: retryable,
+                        circuitOpen: circuit?.openedAt !== undefined
                     });
                     break;
                 }
@@ -59,12 +200,87 @@ export class RetryManager {
         }
 
         throw lastError;
-    }    private defaultIsRetryable(error: any): boolean {
+    }
+
+    // Сбрасывает цепь, например после успешной проверки статуса сервера
+    public resetCircuit(key: string): void {
+        const circuit = this.circuits.get(key);
+        if (circuit) {
+            this.closeCircuit(key, circuit);
+        }
+    }
+
+    public isCircuitOpen(key: string): boolean {
+        return this.circuits.get(key)?.openedAt !== undefined;
+    }
+
+    // Пока цепь разомкнута, вызов отклоняется сразу; по истечении паузы пропускается одна проба
+    private acquireCircuit(key: string, options: RetryOptions): CircuitState {
+        let circuit = this.circuits.get(key);
+        if (!circuit) {
+            circuit = { failures: 0, probing: false };
+            this.circuits.set(key, circuit);
+        }
+        if (circuit.openedAt !== undefined) {
+            const retryIn = circuit.openedAt + options.circuitBreakerCooldown - Date.now();
+            if (retryIn > 0 || circuit.probing) {
+                throw new CircuitOpenError(key, Math.max(retryIn, 0));
+            }
+            this.logger.info(`Circuit for ${key} is half-open, sending a probe request`);
+            circuit.probing = true;
+        }
+        return circuit;
+    }
+
+    private recordFailure(key: string, circuit: CircuitState, options: RetryOptions): void {
+        circuit.failures++;
+        if (circuit.probing || circuit.failures >= options.circuitBreakerThreshold) {
+            this.openCircuit(key, circuit);
+        }
+    }
+
+    private openCircuit(key: string, circuit: CircuitState): void {
+        if (circuit.openedAt === undefined || circuit.probing) {
+            this.logger.warn(`Circuit for ${key} opened after ${circuit.failures} failures`);
+        }
+        circuit.openedAt = Date.now();
+        circuit.probing = false;
+    }
+
+    private closeCircuit(key: string, circuit: CircuitState): void {
+        if (circuit.openedAt !== undefined) {
+            this.logger.info(`Circuit for ${key} closed`);
+        }
+        circuit.failures = 0;
+        circuit.openedAt = undefined;
+        circuit.probing = false;
+    }
+
+    // Отменённая проба ничего не говорит о сервере, следующий вызов сможет попробовать снова
+    private releaseProbe(circuit: CircuitState | undefined): void {
+        if (circuit) {
+            circuit.probing = false;
+        }
+    }
+
+    private getDelay(error: unknown, delay: number, options: RetryOptions): number {
+        const retryAfter = getRetryAfter(error);
+        const wait = retryAfter !== undefined
+            ? retryAfter
+            : delay * (1 + options.jitter * (Math.random() * 2 - 1));
+        return Math.round(Math.min(Math.max(wait, 0), options.maxRetryDelay));
+    }
+
+    dispose() {
+        this.configSubscription.dispose();
+    }
+
+    private defaultIsRetryable(error: any): boolean {
         // Повторяем попытку при таймауте, сетевых ошибках или если сервер перегружен
         if (error instanceof AxiosError) {
             // Коды ошибок, которые стоит повторить
             const retryableStatusCodes = [408, 429, 500, 502, 503, 504];
-            const retryableCodes = ['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED'];
+            const retryableCodes = ['ETIMEDOUT', 'ECONNRESET'];
             
             // Таймаут или нет соединения
             if (!error.response) {
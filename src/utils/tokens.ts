@@ -0,0 +1,10 @@
+// Грубая оценка: в среднем около 4 символов на токен
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function truncateToTokens(text: string, tokens: number): string {
+    return estimateTokens(text) <= tokens ? text : text.slice(0, tokens * CHARS_PER_TOKEN) + '\n... (truncated)';
+}
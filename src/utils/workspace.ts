@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Разрешает путь из ответа модели или из упоминания в чате. Допускаются только файлы
+ * внутри открытых папок рабочей области; существующий файл предпочтительнее нового.
+ */
+export async function resolveWorkspacePath(filePath: string): Promise<vscode.Uri | undefined> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const relative = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+    const candidates = folders.map(folder => {
+        if (path.isAbsolute(filePath)) {
+            return vscode.Uri.file(filePath);
+        }
+        return vscode.Uri.joinPath(folder.uri, relative);
+    });
+
+    const inWorkspace = candidates.filter(uri => {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        return folder && !path.relative(folder.uri.fsPath, uri.fsPath).startsWith('..');
+    });
+    for (const uri of inWorkspace) {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return uri;
+        } catch {
+            // Файла в этой папке нет, пробуем следующую
+        }
+    }
+    return inWorkspace[0];
+}
+
+// Текст файла или undefined, если его нет или он не читается
+export async function readTextFile(uri: vscode.Uri): Promise<string | undefined> {
+    try {
+        return new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+    } catch {
+        return undefined;
+    }
+}